@@ -0,0 +1,228 @@
+import type { UnsubscribeFunction } from "./bucket";
+
+/**
+ * A source of active/inactive states, such as the page visibility or the
+ * network status. While any signal of an {@link IntervalPool} is inactive, its
+ * subscriptions follow their {@link InactivePolicy}.
+ */
+export interface ActivitySignal {
+  /** Whether the environment is currently active. */
+  readonly active: boolean;
+  /**
+   * Registers a listener called with the new state whenever it changes.
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: (active: boolean) => void): UnsubscribeFunction;
+}
+
+/** The subset of `EventTarget` the built-in signals listen to. */
+export interface ActivityEventTarget {
+  addEventListener(type: string, listener: () => void): void;
+  removeEventListener(type: string, listener: () => void): void;
+}
+
+/**
+ * An {@link ActivitySignal} whose state is set by hand. Useful to drive a pool
+ * from any custom source, or to fake one in tests.
+ *
+ * @example
+ *   ```typescript
+ *   const signal = new ManualActivitySignal();
+ *   const pool = new IntervalPool({ activity: signal });
+ *
+ *   socket.on('disconnect', () => signal.set(false));
+ *   socket.on('connect', () => signal.set(true));
+ *   ```;
+ */
+export class ManualActivitySignal implements ActivitySignal {
+  #active: boolean;
+  readonly #listeners = new Set<(active: boolean) => void>();
+
+  constructor(active = true) {
+    this.#active = active;
+  }
+
+  get active(): boolean {
+    return this.#active;
+  }
+
+  /** Changes the state, notifying the listeners if it is a different one. */
+  set(active: boolean): void {
+    if (active === this.#active) return;
+
+    this.#active = active;
+    this.#listeners.forEach((listener) => listener(active));
+  }
+
+  subscribe(listener: (active: boolean) => void): UnsubscribeFunction {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * Builds a signal that reads its state with `read` whenever `target` emits one
+ * of `events`, listening only while it has listeners.
+ */
+function eventSignal(
+  target: ActivityEventTarget | undefined,
+  events: readonly string[],
+  read: () => boolean,
+): ActivitySignal {
+  const listeners = new Set<(active: boolean) => void>();
+  let active = read();
+
+  const handleEvent = () => {
+    const next = read();
+    if (next === active) return;
+
+    active = next;
+    listeners.forEach((listener) => listener(active));
+  };
+
+  return {
+    get active() {
+      return listeners.size > 0 ? active : read();
+    },
+    subscribe(listener) {
+      if (listeners.size === 0) {
+        active = read();
+        events.forEach((type) => target?.addEventListener(type, handleEvent));
+      }
+      listeners.add(listener);
+
+      return () => {
+        if (!listeners.delete(listener) || listeners.size > 0) return;
+        events.forEach((type) =>
+          target?.removeEventListener(type, handleEvent),
+        );
+      };
+    },
+  };
+}
+
+/**
+ * An {@link ActivitySignal} that is active while the page is visible, based on
+ * `document.visibilityState`. Always active outside browsers.
+ *
+ * @param document - The document to watch. Defaults to the global one.
+ */
+export function visibilitySignal(
+  document:
+    | (Pick<Document, "visibilityState"> & ActivityEventTarget)
+    | undefined = globalThis.document,
+): ActivitySignal {
+  return eventSignal(
+    document,
+    ["visibilitychange"],
+    () => document?.visibilityState !== "hidden",
+  );
+}
+
+/**
+ * An {@link ActivitySignal} that is active while the device is online, based on
+ * `navigator.onLine`. Always active where it is not available.
+ *
+ * @param navigator - The navigator to read the status from. Defaults to the
+ *   global one.
+ * @param target - Where the `online` and `offline` events are dispatched.
+ *   Defaults to the global object.
+ */
+export function onlineSignal(
+  navigator: Pick<Navigator, "onLine"> | undefined = globalThis.navigator,
+  target: ActivityEventTarget | undefined = globalThis.window,
+): ActivitySignal {
+  return eventSignal(
+    target,
+    ["online", "offline"],
+    () => navigator?.onLine !== false,
+  );
+}
+
+/** The subset of the Battery Status API `BatteryManager` used by signals. */
+export interface BatteryStatus extends ActivityEventTarget {
+  readonly charging: boolean;
+  /** The charge level, from `0` to `1` */
+  readonly level: number;
+}
+
+export interface BatterySignalOptions {
+  /**
+   * The charge level (from `0` to `1`) below which the signal turns inactive
+   * while not charging. Defaults to `0.2`.
+   */
+  minLevel?: number;
+  /**
+   * The battery to watch. Defaults to the result of `navigator.getBattery()`
+   * where the Battery Status API is available.
+   */
+  battery?: BatteryStatus | PromiseLike<BatteryStatus>;
+}
+
+/**
+ * An {@link ActivitySignal} that turns inactive while the battery is low and not
+ * charging. It stays active until the battery status is known, and always where
+ * the Battery Status API is not available or the status can't be read (e.g.
+ * forbidden by a permissions policy). Like the other built-in signals, it only
+ * listens to the battery while it has listeners.
+ */
+export function batterySignal(options?: BatterySignalOptions): ActivitySignal {
+  const minLevel = options?.minLevel ?? 0.2;
+  const navigator = globalThis.navigator as
+    | { getBattery?: () => Promise<BatteryStatus> }
+    | undefined;
+  const battery = options?.battery ?? navigator?.getBattery?.();
+  const listeners = new Set<(active: boolean) => void>();
+  /** The signal of the battery, once its status is known */
+  let source: ActivitySignal | undefined;
+  let unwatchSource: UnsubscribeFunction | undefined;
+  let active = true;
+
+  const update = (next: boolean) => {
+    if (next === active) return;
+
+    active = next;
+    listeners.forEach((listener) => listener(active));
+  };
+
+  const watchSource = () => {
+    if (!source) return;
+    unwatchSource = source.subscribe(update);
+    update(source.active);
+  };
+
+  Promise.resolve(battery).then(
+    (status) => {
+      if (!status) return;
+
+      source = eventSignal(
+        status,
+        ["chargingchange", "levelchange"],
+        () => status.charging || status.level >= minLevel,
+      );
+      if (listeners.size > 0) watchSource();
+    },
+    () => {
+      // Stays active without a battery status
+    },
+  );
+
+  return {
+    get active() {
+      return source?.active ?? true;
+    },
+    subscribe(listener) {
+      if (listeners.size === 0) watchSource();
+      listeners.add(listener);
+
+      return () => {
+        if (!listeners.delete(listener) || listeners.size > 0) return;
+        unwatchSource?.();
+        unwatchSource = undefined;
+      };
+    },
+  };
+}
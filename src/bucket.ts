@@ -1,14 +1,323 @@
 import type { CustomInterval } from ".";
 
-/** Represents a callback function that will be executed at regular intervals. */
-export type IntervalCallback = () => void;
+/**
+ * Represents a callback function that will be executed at regular intervals. It
+ * may return a promise, in which case the subscription's {@link OverlapPolicy}
+ * decides what happens while it is still pending. Any other return value is
+ * ignored.
+ */
+export type IntervalCallback = () => unknown;
 
 /** Represents an unsubscribe function that stops the execution of a callback. */
 export type UnsubscribeFunction = () => void;
 
+/**
+ * What to do when a tick arrives while a previous async run of the same
+ * subscription is still pending.
+ *
+ * - `"parallel"`: start a new run regardless (default).
+ * - `"skip"`: drop the tick.
+ * - `"queue"`: run again as soon as the pending run settles. At most one run is
+ *   queued: the ticks arriving while one already is are dropped.
+ */
+export type OverlapPolicy = "parallel" | "skip" | "queue";
+
+/**
+ * How a paused bucket or subscription picks up again.
+ *
+ * - `"phase"`: continue on the original phase, as if it had never been paused
+ *   (default).
+ * - `"immediate"`: run right away, then continue from there. A subscription only
+ *   runs right away if a tick would run it now, and otherwise resumes like with
+ *   `"phase"`.
+ * - `"restart"`: wait a full period from the moment it is resumed.
+ *
+ * Aligned buckets always keep their wall-clock phase.
+ */
+export type ResumeMode = "phase" | "immediate" | "restart";
+
+/**
+ * What a subscription does while its pool's activity signals report the
+ * environment as inactive (e.g. a hidden tab).
+ *
+ * - `"pause"`: skip every tick until it is active again.
+ * - `"run"`: keep running as usual.
+ * - `{ slowdown: n }`: run only on every `n`-th tick.
+ */
+export type InactivePolicy = "pause" | "run" | { slowdown: number };
+
+/**
+ * The special scheduling of a bucket: `"frame"` buckets tick on animation
+ * frames, and `"idle"` ones wait for the thread to be idle after each tick.
+ */
+export type BucketKind = "frame" | "idle";
+
+/** Describes where a callback error happened. */
+export interface IntervalErrorContext {
+  /** The delay of the bucket the subscription belongs to */
+  delay: number;
+  /** The label given to the subscription, if any */
+  label: string | undefined;
+  /** The bucket tick (starting at 1) that started the failed run */
+  tick: number;
+}
+
+/** Receives errors thrown (or rejected) by interval callbacks. */
+export type IntervalErrorHandler = (
+  error: unknown,
+  context: IntervalErrorContext,
+) => void;
+
 export interface IntervalSubscription {
   callback: IntervalCallback;
   once?: boolean;
+  overlap?: OverlapPolicy;
+  label?: string;
+  /** Overrides the bucket error handler for this subscription */
+  onError?: IntervalErrorHandler;
+  /** Removes the subscription after this many failed runs in a row */
+  maxConsecutiveErrors?: number;
+  /** The delay asked for, when the bucket delay differs from it */
+  requestedDelay?: number;
+  /** What to do while the bucket is inactive. Defaults to `"run"`. */
+  inactive?: InactivePolicy;
+  /** Returns how long to delay each run after its tick, in milliseconds */
+  jitter?: () => number;
+  /**
+   * Delays the runs so that the spread subscriptions of the bucket are evenly
+   * distributed across the period
+   */
+  spread?: boolean;
+  /** Ticks before this time are skipped */
+  notBefore?: number;
+  /**
+   * Returns when the subscription is due next. Ticks before that time are
+   * skipped, like with `notBefore`, without counting as runs.
+   */
+  dueAt?: () => number;
+  /**
+   * Called with the time of each tick at or after `dueAt()`, whether or not the
+   * subscription runs on it (e.g. paused or skipped), to move `dueAt()` past
+   * that tick
+   */
+  onDue?: (time: number) => void;
+  /** Subscriptions with a higher priority run first on each tick. Defaults to 0. */
+  priority?: number;
+  /** Labels of the subscriptions of the bucket that this one runs before */
+  before?: readonly string[];
+  /** Labels of the subscriptions of the bucket that this one runs after */
+  after?: readonly string[];
+  /** Called once the subscription leaves the bucket, for whatever reason */
+  onRemove?: () => void;
+}
+
+/** Receives the timing measurements of buckets, when metrics are enabled. */
+export interface BucketObserver {
+  /** A tick fired `drift` milliseconds after it was scheduled */
+  tick(bucket: IntervalBucket, drift: number): void;
+  /** A run of the subscription took `duration` milliseconds, until it settled */
+  run(
+    bucket: IntervalBucket,
+    subscription: IntervalSubscription,
+    duration: number,
+  ): void;
+  /** A run of the subscription failed */
+  error(bucket: IntervalBucket, subscription: IntervalSubscription): void;
+}
+
+export interface IntervalBucketOptions {
+  /** Handles callback errors of subscriptions without their own `onError` */
+  onError?: IntervalErrorHandler;
+  /** Collects timing measurements. Nothing is measured without one. */
+  observer?: BucketObserver;
+  /** Called when the bucket starts its timer */
+  onStart?: (bucket: IntervalBucket) => void;
+  /** Called when the bucket releases its timer */
+  onStop?: (bucket: IntervalBucket) => void;
+  /** Called on each tick, before the callbacks run */
+  onTick?: (bucket: IntervalBucket, tick: number, time: number) => void;
+  /**
+   * Aligns ticks to the wall clock: they happen at `phase + k * delay`
+   * milliseconds since the epoch. By default the phase is set by the moment the
+   * bucket starts. Ignored for delays of 0 or less, which can't be aligned.
+   */
+  phase?: number;
+  /** The special scheduling the interval implements, if any */
+  kind?: BucketKind;
+  /**
+   * Set for the buckets created to tick at the time of a precise subscription,
+   * whose phase is then a one-off
+   */
+  precise?: boolean;
+}
+
+interface SubscriptionState {
+  /** Settles when the latest run (and every run queued before it) is done. */
+  pending?: Promise<void>;
+  /** Whether a `"queue"` run waits for the pending one */
+  queued?: boolean;
+  consecutiveErrors: number;
+  paused: boolean;
+  /** Ticks scheduled before this time are skipped, after a `"restart"` resume */
+  resumeAt?: number;
+  /** Ticks seen since the bucket became inactive, to apply slowdowns */
+  inactiveTicks: number;
+}
+
+export const defaultErrorHandler: IntervalErrorHandler = (error) => {
+  console.error("Error in interval callback:", error);
+};
+
+/**
+ * Maps an epoch offset to the equivalent phase in `[0, delay)`, or to 0 for
+ * delays of 0 or less.
+ */
+export function normalizePhase(phase: number, delay: number): number {
+  if (!(delay > 0)) return 0;
+  return ((phase % delay) + delay) % delay;
+}
+
+/** Reads the current time from the interval, defaulting to `Date.now`. */
+export function now(interval: CustomInterval): number {
+  return interval.now?.() ?? Date.now();
+}
+
+/**
+ * Runs `handler` once after `timeout` milliseconds, with `interval.once` when
+ * provided or else the interval primitives. The returned id can be cancelled
+ * with `interval.clear`.
+ */
+export function setOnce<TId>(
+  interval: CustomInterval<TId>,
+  handler: () => void,
+  timeout: number,
+): TId {
+  if (interval.once) return interval.once(handler, timeout);
+
+  const id = interval.set(() => {
+    interval.clear(id);
+    handler();
+  }, timeout);
+  return id;
+}
+
+/** Whether a subscription has `before`/`after` constraints. */
+function isConstrained({ before, after }: IntervalSubscription): boolean {
+  return (before?.length ?? 0) > 0 || (after?.length ?? 0) > 0;
+}
+
+/**
+ * Inserts `item` into `sorted` with a binary search, after every item that
+ * `precedes` doesn't put after it.
+ */
+function insertSorted<T>(
+  sorted: T[],
+  item: T,
+  precedes: (first: T, second: T) => boolean,
+) {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (precedes(item, sorted[middle]!)) high = middle;
+    else low = middle + 1;
+  }
+  sorted.splice(low, 0, item);
+}
+
+/**
+ * Sorts subscriptions in execution order: every `before`/`after` constraint
+ * between them holds, and otherwise higher priorities come first, then the
+ * earliest added.
+ *
+ * @param subscriptions - In insertion order
+ * @throws If the constraints are circular
+ */
+function orderSubscriptions(
+  subscriptions: readonly IntervalSubscription[],
+): IntervalSubscription[] {
+  const position = new Map<IntervalSubscription, number>();
+  const byLabel = new Map<string, IntervalSubscription[]>();
+  subscriptions.forEach((subscription, index) => {
+    position.set(subscription, index);
+    if (subscription.label === undefined) return;
+    const labelled = byLabel.get(subscription.label) ?? [];
+    labelled.push(subscription);
+    byLabel.set(subscription.label, labelled);
+  });
+
+  const successors = new Map<IntervalSubscription, IntervalSubscription[]>();
+  const predecessorCount = new Map<IntervalSubscription, number>();
+  subscriptions.forEach((subscription) => {
+    successors.set(subscription, []);
+    predecessorCount.set(subscription, 0);
+  });
+  const link = (first: IntervalSubscription, then: IntervalSubscription) => {
+    if (first === then) return;
+    successors.get(first)!.push(then);
+    predecessorCount.set(then, predecessorCount.get(then)! + 1);
+  };
+
+  for (const subscription of subscriptions) {
+    subscription.before?.forEach((label) =>
+      byLabel.get(label)?.forEach((other) => link(subscription, other)),
+    );
+    subscription.after?.forEach((label) =>
+      byLabel.get(label)?.forEach((other) => link(other, subscription)),
+    );
+  }
+
+  // Higher priorities first, then the earliest added
+  const compare = (first: IntervalSubscription, second: IntervalSubscription) =>
+    (second.priority ?? 0) - (first.priority ?? 0) ||
+    position.get(first)! - position.get(second)!;
+
+  const order: IntervalSubscription[] = [];
+  // Sorted from last to first, so that the next one pops from the end
+  const ready = subscriptions
+    .filter((subscription) => predecessorCount.get(subscription) === 0)
+    .sort((first, second) => compare(second, first));
+
+  while (ready.length > 0) {
+    const next = ready.pop()!;
+    order.push(next);
+
+    for (const successor of successors.get(next)!) {
+      const count = predecessorCount.get(successor)! - 1;
+      predecessorCount.set(successor, count);
+      if (count === 0) {
+        insertSorted(
+          ready,
+          successor,
+          (first, second) => compare(first, second) > 0,
+        );
+      }
+    }
+  }
+
+  if (order.length < subscriptions.length) {
+    const ordered = new Set(order);
+    const labels = subscriptions
+      .filter((subscription) => !ordered.has(subscription))
+      .flatMap(({ label }) => (label === undefined ? [] : [`"${label}"`]));
+    throw new Error(
+      `Circular before/after dependencies between the subscriptions ${labels.join(", ")}`,
+    );
+  }
+
+  return order;
+}
+
+/** A run delayed after its tick by a jitter or spread offset. */
+interface DeferredRun {
+  at: number;
+  subscription: IntervalSubscription;
+  state: SubscriptionState;
+  tick: number;
+}
+
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | null)?.then === "function";
 }
 
 /** Internal structure to manage callbacks for a specific interval duration. */
@@ -16,19 +325,63 @@ export class IntervalBucket {
   #disposed = false;
   #intervalId: unknown;
   #onEmpty: ((bucket: IntervalBucket) => void) | undefined;
+  #tick = 0;
+  #paused = false;
+  #active = true;
+  /** Runs delayed within the current period, sorted by time */
+  #deferred: DeferredRun[] = [];
+  #deferredId: unknown;
+  /**
+   * A time the ticks are scheduled at, modulo the delay: the phase of aligned
+   * buckets, or the latest tick of the others
+   */
+  #anchor: number | undefined;
+  /** When the next tick is scheduled, to measure drift with an observer */
+  #expectedAt: number | undefined;
 
   readonly delay: number;
+  /** The wall-clock phase of the ticks, normalized to `[0, delay)` */
+  readonly phase: number | undefined;
+  readonly kind: BucketKind | undefined;
+  readonly precise: boolean;
   readonly #interval: CustomInterval;
-  readonly #subscriptions = new Set<IntervalSubscription>();
+  readonly #onError: IntervalErrorHandler;
+  readonly #observer: BucketObserver | undefined;
+  readonly #hooks: Pick<IntervalBucketOptions, "onStart" | "onStop" | "onTick">;
+  readonly #subscriptions = new Map<IntervalSubscription, SubscriptionState>();
+  /**
+   * The subscriptions in execution order, kept only while it differs from the
+   * insertion order, i.e. while some of them have a priority or constraints
+   */
+  #order: IntervalSubscription[] | undefined;
+  /** The subscriptions with `before`/`after` constraints */
+  readonly #constrained = new Set<IntervalSubscription>();
+  /** How many subscriptions have a priority other than 0 */
+  #prioritizedCount = 0;
 
   constructor(
     interval: CustomInterval,
     delay: number,
     onEmpty: (bucket: IntervalBucket) => void,
+    options?: IntervalBucketOptions,
   ) {
     this.#interval = interval;
     this.delay = delay;
     this.#onEmpty = onEmpty;
+    this.#onError = options?.onError ?? defaultErrorHandler;
+    this.#observer = options?.observer;
+    this.#hooks = {
+      onStart: options?.onStart,
+      onStop: options?.onStop,
+      onTick: options?.onTick,
+    };
+    this.phase =
+      options?.phase === undefined || !(delay > 0)
+        ? undefined
+        : normalizePhase(options.phase, delay);
+    this.kind = options?.kind;
+    this.precise = options?.precise ?? false;
+    this.#anchor = this.phase;
   }
 
   add(subscription: IntervalSubscription) {
@@ -36,8 +389,15 @@ export class IntervalBucket {
       throw new Error("Cannot add subscription to a disposed bucket");
     }
 
-    this.#subscriptions.add(subscription);
-    this.#tryStart();
+    if (!this.#subscriptions.has(subscription)) {
+      this.#insertInOrder(subscription);
+      this.#subscriptions.set(subscription, {
+        consecutiveErrors: 0,
+        paused: false,
+        inactiveTicks: 0,
+      });
+    }
+    this.#update();
   }
 
   remove(subscription: IntervalSubscription) {
@@ -45,12 +405,207 @@ export class IntervalBucket {
       throw new Error("Cannot remove subscription from a disposed bucket");
     }
 
-    this.#subscriptions.delete(subscription);
+    if (this.#subscriptions.delete(subscription)) {
+      this.#removeFromOrder(subscription);
+      subscription.onRemove?.();
+    }
 
     if (this.#subscriptions.size === 0) {
       this.stop();
       this.#onEmpty?.(this);
+    } else {
+      this.#update();
+    }
+  }
+
+  /**
+   * Whether the place of a subscription depends on constraints: its own, or the
+   * ones of other subscriptions referring to its label.
+   */
+  #isOrderedByConstraints(subscription: IntervalSubscription): boolean {
+    if (isConstrained(subscription)) return true;
+
+    const { label } = subscription;
+    if (label === undefined) return false;
+    for (const { before, after } of this.#constrained) {
+      if (before?.includes(label) || after?.includes(label)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Places a new subscription in the execution order. Only constraints need a
+   * full sort, which throws before anything changes if they are circular.
+   */
+  #insertInOrder(subscription: IntervalSubscription) {
+    const prioritized = (subscription.priority ?? 0) !== 0;
+    if (this.#isOrderedByConstraints(subscription)) {
+      this.#order = orderSubscriptions([
+        ...this.#subscriptions.keys(),
+        subscription,
+      ]);
+      if (isConstrained(subscription)) this.#constrained.add(subscription);
+    } else if (this.#order || prioritized) {
+      this.#order ??= Array.from(this.#subscriptions.keys());
+      // The newest subscription goes right before the first one of a lower
+      // priority, which is also where the full sort would put it
+      const runsBefore = (other: IntervalSubscription) =>
+        (subscription.priority ?? 0) > (other.priority ?? 0);
+      if (this.#constrained.size === 0) {
+        insertSorted(this.#order, subscription, (_, other) =>
+          runsBefore(other),
+        );
+      } else {
+        const index = this.#order.findIndex(runsBefore);
+        this.#order.splice(
+          index === -1 ? this.#order.length : index,
+          0,
+          subscription,
+        );
+      }
+    }
+    if (prioritized) this.#prioritizedCount++;
+  }
+
+  #removeFromOrder(subscription: IntervalSubscription) {
+    const reorder = this.#isOrderedByConstraints(subscription);
+    this.#constrained.delete(subscription);
+    if ((subscription.priority ?? 0) !== 0) this.#prioritizedCount--;
+    if (!this.#order) return;
+
+    if (this.#constrained.size === 0 && this.#prioritizedCount === 0) {
+      this.#order = undefined;
+    } else if (reorder) {
+      // Other subscriptions may have been held back by the removed one
+      this.#order = orderSubscriptions(Array.from(this.#subscriptions.keys()));
+    } else {
+      this.#order.splice(this.#order.indexOf(subscription), 1);
+    }
+  }
+
+  /** Releases the timer while keeping the subscriptions. */
+  pause() {
+    if (this.#disposed) {
+      throw new Error("Cannot pause a disposed bucket");
+    }
+
+    this.#paused = true;
+    this.stop();
+  }
+
+  resume(mode: ResumeMode = "phase") {
+    if (this.#disposed) {
+      throw new Error("Cannot resume a disposed bucket");
+    }
+    if (!this.#paused) return;
+
+    this.#paused = false;
+    this.#restart(mode);
+  }
+
+  /** Skips the subscription on every tick until it is resumed. */
+  pauseSubscription(subscription: IntervalSubscription) {
+    const state = this.#subscriptions.get(subscription);
+    if (!state || state.paused) return;
+
+    state.paused = true;
+    this.#update();
+  }
+
+  resumeSubscription(
+    subscription: IntervalSubscription,
+    mode: ResumeMode = "phase",
+  ) {
+    const state = this.#subscriptions.get(subscription);
+    if (!state?.paused) return;
+
+    const time = now(this.#interval);
+    const immediate = mode === "immediate" && this.#runsNow(subscription, time);
+    state.paused = false;
+    state.resumeAt = mode === "restart" ? time + this.delay : undefined;
+
+    if (immediate) {
+      subscription.onDue?.(time);
+      this.#notifySubscription(state, subscription);
+    }
+    this.#update();
+  }
+
+  /**
+   * Whether a tick at `time` would run the subscription, leaving aside its own
+   * paused state.
+   */
+  #runsNow(subscription: IntervalSubscription, time: number): boolean {
+    return (
+      !this.#paused &&
+      time >= (subscription.notBefore ?? -Infinity) &&
+      time >= (subscription.dueAt?.() ?? -Infinity) &&
+      (this.#active || (subscription.inactive ?? "run") === "run")
+    );
+  }
+
+  get paused(): boolean {
+    return this.#paused;
+  }
+
+  /** When the next tick happens, or `undefined` while the timer is stopped. */
+  get nextTickAt(): number | undefined {
+    if (!this.#intervalId) return;
+
+    const time = now(this.#interval);
+    const anchor = this.#anchor ?? time;
+    return time + (normalizePhase(anchor - time, this.delay) || this.delay);
+  }
+
+  /**
+   * When the next tick that runs the subscription happens, or `undefined` if
+   * none is scheduled.
+   */
+  nextRunAt(subscription: IntervalSubscription): number | undefined {
+    const state = this.#subscriptions.get(subscription);
+    if (!state || state.paused) return;
+    if (!this.#active && subscription.inactive === "pause") return;
+
+    return this.firstTickAt(
+      Math.max(
+        state.resumeAt ?? -Infinity,
+        subscription.notBefore ?? -Infinity,
+        subscription.dueAt?.() ?? -Infinity,
+      ),
+    );
+  }
+
+  /**
+   * When the first tick at or after `time` happens, or `undefined` while the
+   * timer is stopped.
+   */
+  firstTickAt(time: number): number | undefined {
+    const next = this.nextTickAt;
+    if (next === undefined || next >= time) return next;
+
+    return next + Math.ceil((time - next) / this.delay) * this.delay;
+  }
+
+  /**
+   * Switches between the active and inactive states. While inactive, every
+   * subscription follows its {@link InactivePolicy}, and the timer is released
+   * if all of them are paused by it.
+   */
+  setActive(active: boolean) {
+    if (this.#disposed) {
+      throw new Error("Cannot change the activity of a disposed bucket");
     }
+    if (active === this.#active) return;
+
+    this.#active = active;
+    this.#subscriptions.forEach((state) => {
+      state.inactiveTicks = 0;
+    });
+    this.#update();
+  }
+
+  get active(): boolean {
+    return this.#active;
   }
 
   stop() {
@@ -61,43 +616,337 @@ export class IntervalBucket {
     if (this.#intervalId) {
       this.#interval.clear(this.#intervalId);
       this.#intervalId = undefined;
+      this.#hooks.onStop?.(this);
     }
+    if (this.#deferredId) {
+      this.#interval.clear(this.#deferredId);
+      this.#deferredId = undefined;
+    }
+    this.#deferred = [];
   }
 
   dispose() {
     if (this.#disposed) return;
+    const subscriptions = Array.from(this.#subscriptions.keys());
     this.#subscriptions.clear();
+    this.#order = undefined;
+    this.#constrained.clear();
+    this.#prioritizedCount = 0;
     this.stop();
     this.#onEmpty = undefined;
     this.#disposed = true;
+
+    subscriptions.forEach((subscription) => subscription.onRemove?.());
+  }
+
+  /** Settles once the async runs still pending are done. */
+  async settled(): Promise<void> {
+    const pending: Promise<void>[] = [];
+    this.#subscriptions.forEach((state) => {
+      if (state.pending) pending.push(state.pending);
+    });
+    await Promise.all(pending);
+  }
+
+  /** Runs the timer only while some subscription can be notified. */
+  #update() {
+    let needed = false;
+    for (const [subscription, state] of this.#subscriptions) {
+      needed =
+        !state.paused && (this.#active || subscription.inactive !== "pause");
+      if (needed) break;
+    }
+
+    if (needed && !this.#paused) {
+      this.#tryStart();
+    } else if (this.#intervalId) {
+      this.stop();
+    }
+  }
+
+  #restart(mode: ResumeMode) {
+    if (this.phase === undefined && mode !== "phase") {
+      this.#anchor = now(this.#interval);
+    }
+
+    this.#update();
+
+    if (mode === "immediate" && this.#intervalId) {
+      this.#handleIntervalTick();
+    }
   }
 
   #tryStart() {
     if (this.#intervalId) return;
 
+    const time = now(this.#interval);
+    this.#anchor ??= time;
+    const wait = normalizePhase(this.#anchor - time, this.delay);
+    if (this.#observer) this.#expectedAt = time + (wait || this.delay);
+
+    if (wait === 0) {
+      this.#startInterval();
+    } else {
+      // Wait for the first tick on the phase, then keep going at the regular pace
+      this.#intervalId = setOnce(
+        this.#interval,
+        () => {
+          this.#startInterval();
+          this.#handleTimer();
+        },
+        wait,
+      );
+    }
+    this.#hooks.onStart?.(this);
+  }
+
+  #startInterval() {
     this.#intervalId = this.#interval.set(
-      this.#handleIntervalTick.bind(this),
+      this.#handleTimer.bind(this),
       this.delay,
     );
   }
 
-  #notifySubscription(subscription: IntervalSubscription) {
-    const { callback, once } = subscription;
+  /** Handles the scheduled ticks, as opposed to the `"immediate"` resumes. */
+  #handleTimer() {
+    if (this.#observer && this.#expectedAt !== undefined) {
+      const time = now(this.#interval);
+      // Ticks skipped by a blocked event loop count from the latest one missed
+      let expectedAt = this.#expectedAt;
+      while (expectedAt + this.delay <= time) expectedAt += this.delay;
+
+      this.#expectedAt = expectedAt + this.delay;
+      this.#observer.tick(this, Math.max(0, time - expectedAt));
+    }
+
+    this.#handleIntervalTick();
+  }
+
+  #reportError(
+    subscription: IntervalSubscription,
+    state: SubscriptionState,
+    error: unknown,
+    tick: number,
+  ) {
+    this.#observer?.error(this, subscription);
+
+    const onError = subscription.onError ?? this.#onError;
+    try {
+      onError(error, { delay: this.delay, label: subscription.label, tick });
+    } catch (handlerError) {
+      // A failing handler must not break the remaining callbacks either
+      defaultErrorHandler(handlerError, {
+        delay: this.delay,
+        label: subscription.label,
+        tick,
+      });
+    }
+
+    const { maxConsecutiveErrors } = subscription;
+    if (
+      maxConsecutiveErrors !== undefined &&
+      ++state.consecutiveErrors >= maxConsecutiveErrors &&
+      this.#subscriptions.get(subscription) === state
+    ) {
+      this.remove(subscription);
+    }
+  }
+
+  /**
+   * Calls the subscription's callback, routing both synchronous throws and
+   * rejections to the error handler.
+   *
+   * @returns A promise that settles once an async callback is done, or
+   *   `undefined` for synchronous callbacks
+   */
+  #invoke(
+    subscription: IntervalSubscription,
+    state: SubscriptionState,
+    tick: number,
+  ): Promise<void> | undefined {
+    const startedAt = this.#observer ? now(this.#interval) : undefined;
+
+    let result: unknown;
     try {
-      callback();
+      result = subscription.callback();
     } catch (error) {
-      // Catch errors to prevent one callback from breaking others
-      console.error("Error in interval callback:", error);
+      this.#measure(subscription, startedAt);
+      this.#reportError(subscription, state, error, tick);
+      return;
+    }
+
+    if (!isPromiseLike(result)) {
+      this.#measure(subscription, startedAt);
+      state.consecutiveErrors = 0;
+      return;
+    }
+
+    return Promise.resolve(result).then(
+      () => {
+        this.#measure(subscription, startedAt);
+        state.consecutiveErrors = 0;
+      },
+      (error: unknown) => {
+        this.#measure(subscription, startedAt);
+        this.#reportError(subscription, state, error, tick);
+      },
+    );
+  }
+
+  #measure(subscription: IntervalSubscription, startedAt: number | undefined) {
+    if (startedAt === undefined) return;
+    this.#observer?.run(this, subscription, now(this.#interval) - startedAt);
+  }
+
+  #track(state: SubscriptionState, run: Promise<void> | undefined) {
+    if (!run) return;
+
+    state.pending = run;
+    void run.then(() => {
+      if (state.pending === run) state.pending = undefined;
+    });
+  }
+
+  #notifySubscription(
+    state: SubscriptionState,
+    subscription: IntervalSubscription,
+    tick = this.#tick,
+  ) {
+    const { once, overlap = "parallel" } = subscription;
+    try {
+      if (!state.pending || overlap === "parallel") {
+        this.#track(state, this.#invoke(subscription, state, tick));
+      } else if (overlap === "queue" && !state.queued) {
+        state.queued = true;
+        this.#track(
+          state,
+          state.pending.then(() => {
+            state.queued = false;
+            // Drop queued runs of subscriptions removed in the meantime
+            if (this.#subscriptions.get(subscription) !== state) return;
+            return this.#invoke(subscription, state, tick);
+          }),
+        );
+      }
     } finally {
-      if (once) {
+      if (once && this.#subscriptions.get(subscription) === state) {
         this.remove(subscription);
       }
     }
   }
 
   #handleIntervalTick() {
-    // Execute all callbacks registered for this interval
-    this.#subscriptions.forEach(this.#notifySubscription, this);
+    const time = now(this.#interval);
+    this.#tick++;
+    if (this.phase === undefined) this.#anchor = time;
+    this.#hooks.onTick?.(this, this.#tick, time);
+
+    // A copy, as subscriptions may come and go while the callbacks run
+    const order = Array.from(this.#order ?? this.#subscriptions.keys());
+    const states = order.map((subscription) =>
+      this.#subscriptions.get(subscription),
+    );
+    const spreadCount = order.filter(({ spread }) => spread).length;
+    let spreadIndex = 0;
+
+    // Execute all callbacks registered for this interval, in execution order.
+    // Subscriptions added by a callback wait for the next tick, and removed
+    // ones are skipped.
+    for (const [index, subscription] of order.entries()) {
+      const state = states[index]!;
+      if (this.#subscriptions.get(subscription) !== state) continue;
+
+      // Spread slots stay the same whether or not the others run on this tick
+      const slot = subscription.spread ? spreadIndex++ : 0;
+
+      if (time < (subscription.dueAt?.() ?? -Infinity)) continue;
+      subscription.onDue?.(time);
+
+      if (state.paused) continue;
+      if (state.resumeAt !== undefined) {
+        if (time < state.resumeAt) continue;
+        state.resumeAt = undefined;
+      }
+      if (time < (subscription.notBefore ?? -Infinity)) continue;
+      if (!this.#active && !this.#runsWhileInactive(state, subscription)) {
+        continue;
+      }
+
+      const offset = subscription.spread
+        ? (slot * this.delay) / spreadCount
+        : Math.min(subscription.jitter?.() ?? 0, this.delay);
+
+      if (offset > 0) {
+        this.#defer({
+          at: time + offset,
+          subscription,
+          state,
+          tick: this.#tick,
+        });
+      } else {
+        this.#notifySubscription(state, subscription);
+      }
+    }
+  }
+
+  #defer(run: DeferredRun) {
+    let index = this.#deferred.length;
+    while (index > 0 && this.#deferred[index - 1]!.at > run.at) index--;
+    this.#deferred.splice(index, 0, run);
+
+    if (index === 0) this.#armDeferred();
+  }
+
+  /** Schedules the single timer of the deferred runs for the earliest one. */
+  #armDeferred() {
+    if (this.#deferredId) {
+      this.#interval.clear(this.#deferredId);
+      this.#deferredId = undefined;
+    }
+
+    const next = this.#deferred[0];
+    if (!next) return;
+
+    this.#deferredId = setOnce(
+      this.#interval,
+      this.#runDeferred,
+      Math.max(0, next.at - now(this.#interval)),
+    );
+  }
+
+  #runDeferred = () => {
+    this.#deferredId = undefined;
+    const time = now(this.#interval);
+
+    while (this.#deferred.length > 0 && this.#deferred[0]!.at <= time) {
+      const { subscription, state, tick } = this.#deferred.shift()!;
+      // Skip the runs of subscriptions removed or paused in the meantime
+      if (this.#subscriptions.get(subscription) !== state || state.paused) {
+        continue;
+      }
+      this.#notifySubscription(state, subscription, tick);
+    }
+
+    if (!this.#disposed) this.#armDeferred();
+  };
+
+  #runsWhileInactive(
+    state: SubscriptionState,
+    { inactive = "run" }: IntervalSubscription,
+  ): boolean {
+    if (inactive === "run") return true;
+    if (inactive === "pause") return false;
+
+    return ++state.inactiveTicks % inactive.slowdown === 0;
+  }
+
+  /** The distinct delays requested by the subscriptions, in ascending order. */
+  get requestedDelays(): number[] {
+    const delays = new Set<number>();
+    this.#subscriptions.forEach((_state, { requestedDelay = this.delay }) => {
+      delays.add(requestedDelay);
+    });
+    return Array.from(delays).sort((a, b) => a - b);
   }
 
   get subscriptionCount(): number {
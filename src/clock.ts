@@ -0,0 +1,164 @@
+import type { CustomInterval } from ".";
+
+/** A timer registered in a {@link VirtualClock}. */
+export interface VirtualTimer {
+  id: number;
+  /** The interval period in milliseconds */
+  delay: number;
+  /** The virtual time of the next execution */
+  nextAt: number;
+}
+
+export interface VirtualClockOptions {
+  /** The initial virtual time in milliseconds. Defaults to `0`. */
+  start?: number;
+  /**
+   * Maximum number of timers a single advance may run before assuming an
+   * infinite loop. Defaults to `10_000`.
+   */
+  loopLimit?: number;
+}
+
+interface VirtualTimerEntry extends VirtualTimer {
+  handler: () => void;
+}
+
+/**
+ * A deterministic clock implementing {@link CustomInterval}. Time only moves
+ * when one of the `advance*` methods is called, which runs every due timer
+ * synchronously and in order, so code built on an `IntervalPool` can be tested
+ * without any framework-specific fake timers.
+ *
+ * Timers due at the same virtual time run in the order they were created.
+ *
+ * @example
+ *   ```typescript
+ *   const clock = new VirtualClock();
+ *   const pool = new IntervalPool({ interval: clock });
+ *
+ *   const callback = vi.fn();
+ *   pool.run(1000, callback);
+ *
+ *   clock.advanceBy(3000);
+ *   expect(callback).toHaveBeenCalledTimes(3);
+ *   ```;
+ */
+export class VirtualClock implements CustomInterval<number> {
+  #now: number;
+  #nextId = 1;
+  readonly #loopLimit: number;
+  readonly #timers = new Map<number, VirtualTimerEntry>();
+
+  constructor(options?: VirtualClockOptions) {
+    this.#now = options?.start ?? 0;
+    this.#loopLimit = options?.loopLimit ?? 10_000;
+  }
+
+  set(handler: () => void, timeout: number): number {
+    const id = this.#nextId++;
+    // Like native timers, never run a timer in the same instant it was set
+    const delay = Math.max(1, timeout);
+    this.#timers.set(id, { id, delay, nextAt: this.#now + delay, handler });
+    return id;
+  }
+
+  clear(id: number): void {
+    this.#timers.delete(id);
+  }
+
+  /** The current virtual time in milliseconds. */
+  now(): number {
+    return this.#now;
+  }
+
+  /** The registered timers, sorted by their next execution. */
+  get pendingTimers(): VirtualTimer[] {
+    return Array.from(this.#timers.values(), ({ id, delay, nextAt }) => ({
+      id,
+      delay,
+      nextAt,
+    })).sort(compareTimers);
+  }
+
+  /**
+   * Moves time forward by `ms` milliseconds, running every timer that becomes
+   * due on the way.
+   *
+   * @returns The number of timer executions
+   */
+  advanceBy(ms: number): number {
+    if (ms < 0) {
+      throw new RangeError("Cannot move a virtual clock backwards");
+    }
+
+    const target = this.#now + ms;
+    let count = 0;
+
+    for (
+      let timer = this.#nextTimer();
+      timer && timer.nextAt <= target;
+      timer = this.#nextTimer()
+    ) {
+      if (++count > this.#loopLimit) {
+        throw loopLimitError(this.#loopLimit);
+      }
+
+      this.#now = timer.nextAt;
+      timer.nextAt += timer.delay;
+      timer.handler();
+    }
+
+    this.#now = target;
+    return count;
+  }
+
+  /**
+   * Moves time forward to the next scheduled timer and runs every timer due at
+   * that instant.
+   *
+   * @returns The number of timer executions
+   */
+  advanceToNextTick(): number {
+    const timer = this.#nextTimer();
+    return timer ? this.advanceBy(timer.nextAt - this.#now) : 0;
+  }
+
+  /**
+   * Keeps advancing until no timers are left. Intervals never stop by
+   * themselves, so this only finishes if every interval ends up cleared (e.g.
+   * all subscriptions were `once`); otherwise it throws once the loop limit is
+   * reached.
+   *
+   * @returns The number of timer executions
+   */
+  runAll(): number {
+    let count = 0;
+
+    while (this.#timers.size > 0) {
+      count += this.advanceToNextTick();
+      if (count > this.#loopLimit) {
+        throw loopLimitError(this.#loopLimit);
+      }
+    }
+
+    return count;
+  }
+
+  #nextTimer(): VirtualTimerEntry | undefined {
+    let next: VirtualTimerEntry | undefined;
+    for (const timer of this.#timers.values()) {
+      if (!next || compareTimers(timer, next) < 0) next = timer;
+    }
+    return next;
+  }
+}
+
+function loopLimitError(limit: number): Error {
+  return new Error(
+    `Aborting after running ${limit} timers, assuming an infinite loop`,
+  );
+}
+
+function compareTimers(a: VirtualTimer, b: VirtualTimer): number {
+  return a.nextAt - b.nextAt || a.id - b.id;
+}
@@ -0,0 +1,281 @@
+interface CronField {
+  readonly name: string;
+  readonly min: number;
+  readonly max: number;
+  readonly aliases?: readonly string[];
+}
+
+const SECOND: CronField = { name: "second", min: 0, max: 59 };
+const MINUTE: CronField = { name: "minute", min: 0, max: 59 };
+const HOUR: CronField = { name: "hour", min: 0, max: 23 };
+const DAY_OF_MONTH: CronField = { name: "day of month", min: 1, max: 31 };
+const MONTH: CronField = {
+  name: "month",
+  min: 1,
+  max: 12,
+  // prettier-ignore
+  aliases: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"],
+};
+const DAY_OF_WEEK: CronField = {
+  name: "day of week",
+  min: 0,
+  // 7 is accepted as an alias of Sunday
+  max: 7,
+  aliases: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"],
+};
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+/** Upper bound for the search steps, enough to cover several years. */
+const MAX_SEARCH_STEPS = 100_000;
+const HALF_DAY = 12 * 60 * 60 * 1000;
+
+function parseValue(field: CronField, token: string, expression: string) {
+  const alias = field.aliases?.indexOf(token.toUpperCase()) ?? -1;
+  const value = alias >= 0 ? alias + field.min : Number(token);
+
+  if (!/^\w+$/.test(token) || !Number.isInteger(value)) {
+    throw new Error(
+      `Invalid ${field.name} "${token}" in cron expression "${expression}"`,
+    );
+  }
+  if (value < field.min || value > field.max) {
+    throw new Error(
+      `The ${field.name} ${value} is out of range (${field.min}-${field.max}) in cron expression "${expression}"`,
+    );
+  }
+
+  return value;
+}
+
+function parseField(field: CronField, source: string, expression: string) {
+  const values = new Set<number>();
+
+  for (const item of source.split(",")) {
+    const [range = "", step, ...rest] = item.split("/");
+    const increment = step === undefined ? 1 : Number(step);
+
+    if (rest.length > 0 || !Number.isInteger(increment) || increment < 1) {
+      throw new Error(
+        `Invalid step in ${field.name} "${item}" of cron expression "${expression}"`,
+      );
+    }
+
+    let start = field.min;
+    let end = field.max;
+
+    if (range !== "*" && range !== "?") {
+      const [from = "", to] = range.split("-");
+      start = parseValue(field, from, expression);
+      // "5/15" means "from 5 to the end, every 15"
+      end =
+        to !== undefined
+          ? parseValue(field, to, expression)
+          : step === undefined
+            ? start
+            : field.max;
+    }
+
+    if (start > end) {
+      throw new Error(
+        `Invalid range in ${field.name} "${item}" of cron expression "${expression}"`,
+      );
+    }
+
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string | undefined): Intl.DateTimeFormat {
+  const key = timeZone ?? "";
+  let formatter = formatters.get(key);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(key, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Converts an instant to its wall-clock time in `timeZone`, encoded as if that
+ * wall-clock time was in UTC. Milliseconds are dropped.
+ */
+function toWallTime(instant: number, timeZone: string | undefined): number {
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(instant)) {
+    parts[type] = Number(value);
+  }
+
+  return Date.UTC(
+    parts.year!,
+    parts.month! - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+}
+
+/**
+ * Finds every instant whose wall-clock time in `timeZone` is `wallTime`: none
+ * inside a DST gap, two inside a DST overlap, one otherwise.
+ */
+function fromWallTime(wallTime: number, timeZone: string | undefined) {
+  const instants = new Set<number>();
+
+  // The offsets in effect half a day before and after cover any transition
+  for (const probe of [wallTime - HALF_DAY, wallTime + HALF_DAY]) {
+    const offset = toWallTime(probe, timeZone) - probe;
+    const instant = wallTime - offset;
+    if (toWallTime(instant, timeZone) === wallTime) instants.add(instant);
+  }
+
+  return Array.from(instants).sort((a, b) => a - b);
+}
+
+/**
+ * A parsed cron expression.
+ *
+ * Supports the standard 5-field syntax (`minute hour day-of-month month
+ * day-of-week`) and a 6-field variant with a leading seconds field, with lists
+ * (`1,15`), ranges (`1-5`), steps (`*\/5`, `10-30/10`), month and weekday names
+ * (`JAN`, `MON`) and the `@yearly`, `@monthly`, `@weekly`, `@daily` and
+ * `@hourly` macros.
+ *
+ * As in most cron implementations, when both the day of month and the day of
+ * week are restricted, a day matches if either of them does.
+ */
+export class CronExpression {
+  readonly source: string;
+
+  readonly #seconds: Set<number>;
+  readonly #minutes: Set<number>;
+  readonly #hours: Set<number>;
+  readonly #daysOfMonth: Set<number>;
+  readonly #months: Set<number>;
+  readonly #daysOfWeek: Set<number>;
+  readonly #dayOfMonthRestricted: boolean;
+  readonly #dayOfWeekRestricted: boolean;
+
+  private constructor(source: string) {
+    this.source = source;
+
+    const expanded = MACROS[source.trim().toLowerCase()] ?? source;
+    const fields = expanded.trim().split(/\s+/);
+
+    if (fields.length === 5) fields.unshift("0");
+    if (fields.length !== 6) {
+      throw new Error(
+        `Invalid cron expression "${source}": expected 5 or 6 fields, got ${fields.length}`,
+      );
+    }
+
+    const [second, minute, hour, dayOfMonth, month, dayOfWeek] = fields as [
+      string,
+      string,
+      string,
+      string,
+      string,
+      string,
+    ];
+
+    this.#seconds = parseField(SECOND, second, source);
+    this.#minutes = parseField(MINUTE, minute, source);
+    this.#hours = parseField(HOUR, hour, source);
+    this.#daysOfMonth = parseField(DAY_OF_MONTH, dayOfMonth, source);
+    this.#months = parseField(MONTH, month, source);
+    this.#daysOfWeek = parseField(DAY_OF_WEEK, dayOfWeek, source);
+    if (this.#daysOfWeek.has(7)) this.#daysOfWeek.add(0);
+
+    this.#dayOfMonthRestricted = !/^[*?]/.test(dayOfMonth);
+    this.#dayOfWeekRestricted = !/^[*?]/.test(dayOfWeek);
+  }
+
+  /**
+   * Parses a cron expression.
+   *
+   * @throws If the expression is malformed or a value is out of range
+   */
+  static parse(expression: string): CronExpression {
+    return new CronExpression(expression);
+  }
+
+  /**
+   * Computes the first occurrence strictly after `after`.
+   *
+   * Wall-clock times skipped by a DST transition never match, and times
+   * repeated by one only match once.
+   *
+   * @param after - A timestamp in milliseconds
+   * @param timeZone - An IANA time zone such as `"Europe/Madrid"`. Defaults to
+   *   the local time zone.
+   * @returns The timestamp of the next occurrence
+   */
+  next(after: number, timeZone?: string): number {
+    let wall = toWallTime(after, timeZone) + 1000;
+
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+      const date = new Date(wall);
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth();
+      const day = date.getUTCDate();
+      const hour = date.getUTCHours();
+      const minute = date.getUTCMinutes();
+
+      if (!this.#months.has(month + 1)) {
+        wall = Date.UTC(year, month + 1, 1);
+      } else if (!this.#matchesDay(date)) {
+        wall = Date.UTC(year, month, day + 1);
+      } else if (!this.#hours.has(hour)) {
+        wall = Date.UTC(year, month, day, hour + 1);
+      } else if (!this.#minutes.has(minute)) {
+        wall = Date.UTC(year, month, day, hour, minute + 1);
+      } else if (!this.#seconds.has(date.getUTCSeconds())) {
+        wall += 1000;
+      } else {
+        const instant = fromWallTime(wall, timeZone).find((t) => t > after);
+        if (instant !== undefined) return instant;
+        wall += 1000;
+      }
+    }
+
+    throw new Error(
+      `Cron expression "${this.source}" has no upcoming occurrences`,
+    );
+  }
+
+  #matchesDay(date: Date): boolean {
+    const dayOfMonth = this.#daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = this.#daysOfWeek.has(date.getUTCDay());
+
+    if (this.#dayOfMonthRestricted && this.#dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+}
@@ -0,0 +1,170 @@
+import type { CustomInterval } from ".";
+import { now, setOnce } from "./bucket";
+
+/**
+ * What a {@link DriftCorrectingInterval} timer does with the ticks that came due
+ * while the event loop was stalled for more than a period:
+ *
+ * - `"coalesce"`: run once right away for all of them (default).
+ * - `"skip"`: drop them, including the late one, and wait for the next tick.
+ * - `"burst"`: run once for each of them, back to back.
+ *
+ * The ticks keep their phase in every case.
+ */
+export type StallPolicy = "coalesce" | "skip" | "burst";
+
+export interface DriftCorrectingIntervalOptions {
+  /** What to do with the ticks missed during a stall. Defaults to `"coalesce"`. */
+  stall?: StallPolicy;
+  /**
+   * The interval implementation used for the one-shot timers of each tick, and
+   * as time source if it provides `now`. Defaults to the native `setTimeout`
+   * and `clearTimeout`, with the ticks timed on the monotonic
+   * `performance.now()` clock while `now()` stays the wall clock.
+   */
+  interval?: CustomInterval;
+}
+
+/** How late the ticks of a {@link DriftCorrectingInterval} fired. */
+export interface DriftStats {
+  /** The ticks fired, late or not */
+  ticks: number;
+  /** The ticks that came due during stalls, handled by the stall policy */
+  missed: number;
+  /** In milliseconds, like the following ones */
+  mean: number;
+  max: number;
+  last: number;
+}
+
+/** Native timers, on the wall clock of `Date.now()`. */
+const nativeTimeout: CustomInterval = {
+  set: (handler, timeout) => setInterval(handler, timeout),
+  once: (handler, timeout) => setTimeout(handler, timeout),
+  // Cancels both kinds of timers
+  clear: (id) => clearTimeout(id),
+};
+
+interface CorrectedTimer {
+  readonly handler: () => void;
+  readonly timeout: number;
+  /** When the next tick is due */
+  target: number;
+  timeoutId: unknown;
+}
+
+/**
+ * A {@link CustomInterval} that schedules every tick with a one-shot timer aimed
+ * at its exact target time, instead of relying on `setInterval`. The drift of
+ * each tick is corrected on the next one, so long-lived intervals keep their
+ * phase, and a stalled event loop is caught up with according to the
+ * {@link StallPolicy}. {@link drift} tells how late the ticks fired.
+ *
+ * The recommended backend for clocks, metronomes and other intervals that must
+ * stay on the beat.
+ *
+ * @example
+ *   ```typescript
+ *   const timers = new DriftCorrectingInterval({ stall: 'skip' });
+ *   const pool = new IntervalPool({ interval: timers, align: true });
+ *
+ *   pool.run(1000, renderClock);
+ *
+ *   // Later
+ *   console.log(timers.drift); // { ticks: 3600, missed: 0, mean: 1.2, ... }
+ *   ```;
+ */
+export class DriftCorrectingInterval implements CustomInterval<number> {
+  #nextId = 1;
+  #drift: DriftStats = { ticks: 0, missed: 0, mean: 0, max: 0, last: 0 };
+
+  readonly #stall: StallPolicy;
+  readonly #interval: CustomInterval;
+  /**
+   * Times the ticks. Unlike the wall clock of {@link now}, the default one never
+   * jumps, but falls behind it across system suspends.
+   */
+  readonly #elapsed: () => number;
+  readonly #timers = new Map<number, CorrectedTimer>();
+
+  constructor(options?: DriftCorrectingIntervalOptions) {
+    this.#stall = options?.stall ?? "coalesce";
+    if (!["coalesce", "skip", "burst"].includes(this.#stall)) {
+      throw new Error(`Invalid stall policy "${String(this.#stall)}"`);
+    }
+    const interval = options?.interval;
+    this.#interval = interval ?? nativeTimeout;
+    this.#elapsed = interval ? () => now(interval) : () => performance.now();
+  }
+
+  set(handler: () => void, timeout: number): number {
+    const id = this.#nextId++;
+    const delay = Math.max(1, timeout);
+    const timer: CorrectedTimer = {
+      handler,
+      timeout: delay,
+      target: this.#elapsed() + delay,
+      timeoutId: undefined,
+    };
+
+    this.#timers.set(id, timer);
+    this.#schedule(id, timer);
+    return id;
+  }
+
+  clear(id: number): void {
+    const timer = this.#timers.get(id);
+    if (!timer) return;
+
+    this.#timers.delete(id);
+    this.#interval.clear(timer.timeoutId);
+  }
+
+  now(): number {
+    return now(this.#interval);
+  }
+
+  /** How late the ticks fired so far. */
+  get drift(): DriftStats {
+    return { ...this.#drift };
+  }
+
+  #schedule(id: number, timer: CorrectedTimer) {
+    timer.timeoutId = setOnce(
+      this.#interval,
+      () => this.#fire(id, timer),
+      Math.max(0, timer.target - this.#elapsed()),
+    );
+  }
+
+  #fire(id: number, timer: CorrectedTimer) {
+    const lateness = this.#elapsed() - timer.target;
+    // Timers may fire a little early, wait for the target again
+    if (lateness < 0) {
+      this.#schedule(id, timer);
+      return;
+    }
+
+    const missed = Math.floor(lateness / timer.timeout);
+    const drift = this.#drift;
+    drift.ticks++;
+    drift.missed += missed;
+    drift.mean += (lateness - drift.mean) / drift.ticks;
+    drift.max = Math.max(drift.max, lateness);
+    drift.last = lateness;
+    timer.target += (missed + 1) * timer.timeout;
+
+    const runs =
+      missed === 0 || this.#stall === "coalesce"
+        ? 1
+        : this.#stall === "burst"
+          ? missed + 1
+          : 0;
+    for (let run = 0; run < runs && this.#timers.get(id) === timer; run++) {
+      timer.handler();
+    }
+
+    // The handler may have cleared the timer
+    if (this.#timers.get(id) === timer) this.#schedule(id, timer);
+  }
+}
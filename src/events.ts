@@ -0,0 +1,102 @@
+import type {
+  BucketKind,
+  IntervalErrorContext,
+  UnsubscribeFunction,
+} from "./bucket";
+
+/** Identifies the interval an event is about. */
+export interface IntervalEventTarget {
+  /** The effective delay of the interval */
+  delay: number;
+  /** The wall-clock phase of aligned intervals, in `[0, delay)` */
+  phase: number | undefined;
+  /** Set for the frame and idle intervals */
+  kind: BucketKind | undefined;
+}
+
+export interface IntervalTickEvent extends IntervalEventTarget {
+  /** The tick number of the interval, starting at 1 */
+  tick: number;
+  /** When the tick fired, in milliseconds since the epoch */
+  time: number;
+  subscriptionCount: number;
+}
+
+export interface SubscriptionEvent extends IntervalEventTarget {
+  /** The delay the subscription asked for */
+  requestedDelay: number;
+  label: string | undefined;
+}
+
+export interface IntervalPoolErrorEvent extends IntervalErrorContext {
+  error: unknown;
+}
+
+/** The events of an {@link IntervalPool}, by type, with their payloads. */
+export interface IntervalPoolEventMap {
+  /** An interval was created for the first subscription of its delay */
+  bucketCreate: IntervalEventTarget;
+  /** An interval started its timer */
+  bucketStart: IntervalEventTarget;
+  /** An interval released its timer, e.g. paused or about to be disposed */
+  bucketStop: IntervalEventTarget;
+  /** An interval was disposed, once empty or when the pool was cleared */
+  bucketDispose: IntervalEventTarget;
+  /** An interval ticked, before running its callbacks */
+  tick: IntervalTickEvent;
+  subscribe: SubscriptionEvent;
+  /** A subscription ended, for whatever reason */
+  unsubscribe: SubscriptionEvent;
+  /** A callback threw or rejected, before the error handler is called */
+  error: IntervalPoolErrorEvent;
+}
+
+export type IntervalPoolEventListener<K extends keyof IntervalPoolEventMap> = (
+  event: IntervalPoolEventMap[K],
+) => void;
+
+/** A minimal typed event emitter whose listeners can't break the emitter. */
+export class EventEmitter<TEvents extends object> {
+  readonly #listeners = new Map<keyof TEvents, Set<(event: never) => void>>();
+
+  on<K extends keyof TEvents>(
+    type: K,
+    listener: (event: TEvents[K]) => void,
+  ): UnsubscribeFunction {
+    let listeners = this.#listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.#listeners.set(type, listeners);
+    }
+    // Wrap so that registering the same function twice needs two removals
+    const entry = (event: TEvents[K]) => listener(event);
+    listeners.add(entry);
+
+    return () => {
+      if (listeners.delete(entry) && listeners.size === 0) {
+        this.#listeners.delete(type);
+      }
+    };
+  }
+
+  /** Whether `type` has listeners, to skip building unused payloads. */
+  has(type: keyof TEvents): boolean {
+    return this.#listeners.has(type);
+  }
+
+  emit<K extends keyof TEvents>(type: K, event: TEvents[K]): void {
+    const listeners = this.#listeners.get(type);
+    if (!listeners) return;
+
+    for (const listener of Array.from(listeners)) {
+      try {
+        (listener as (event: TEvents[K]) => void)(event);
+      } catch (error) {
+        console.error(
+          `Error in interval pool "${String(type)}" listener:`,
+          error,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import type { CustomInterval } from ".";
+import { now, setOnce } from "./bucket";
+
+/** A callback run on animation frames, with the timestamp of the frame. */
+export type FrameCallback = (time: number) => unknown;
+
+/** A callback run when the thread is idle, with the time left to use. */
+export type IdleCallback = (deadline: IdleDeadline) => unknown;
+
+/** For custom `requestAnimationFrame` implementations */
+export interface CustomAnimationFrame<TId = any> {
+  request: (callback: (time: number) => void) => TId;
+  cancel: (id: TId) => void;
+}
+
+/** For custom `requestIdleCallback` implementations */
+export interface CustomIdleCallback<TId = any> {
+  request: (callback: (deadline: IdleDeadline) => void) => TId;
+  cancel: (id: TId) => void;
+}
+
+/** The nominal delay of frame buckets, at 60 frames per second. */
+export const FRAME_DELAY = 1000 / 60;
+
+/** The idle time the fallback pretends to have, like a browser idle period. */
+const FALLBACK_IDLE_TIME = 50;
+
+/**
+ * `requestAnimationFrame` when available, and otherwise frames emulated at 60
+ * per second with the interval, e.g. in Node.
+ */
+function defaultAnimationFrame(interval: CustomInterval): CustomAnimationFrame {
+  if (typeof requestAnimationFrame === "function") {
+    return {
+      request: (callback) => requestAnimationFrame(callback),
+      cancel: (id: number) => cancelAnimationFrame(id),
+    };
+  }
+
+  return {
+    request: (callback) =>
+      setOnce(interval, () => callback(now(interval)), FRAME_DELAY),
+    cancel: (id) => interval.clear(id),
+  };
+}
+
+/**
+ * `requestIdleCallback` when available, and otherwise idle periods emulated
+ * right after the current task with the interval, e.g. in Node.
+ */
+function defaultIdleCallback(interval: CustomInterval): CustomIdleCallback {
+  if (typeof requestIdleCallback === "function") {
+    return {
+      request: (callback) => requestIdleCallback(callback),
+      cancel: (id: number) => cancelIdleCallback(id),
+    };
+  }
+
+  return {
+    request: (callback) =>
+      setOnce(
+        interval,
+        () => {
+          const start = now(interval);
+          callback({
+            didTimeout: false,
+            timeRemaining: () =>
+              Math.max(0, FALLBACK_IDLE_TIME - (now(interval) - start)),
+          });
+        },
+        0,
+      ),
+    cancel: (id) => interval.clear(id),
+  };
+}
+
+/**
+ * Adapts animation frames to the {@link CustomInterval} of the frame buckets:
+ * their timers tick on every frame, whatever the timeout.
+ */
+export class FrameInterval implements CustomInterval<number> {
+  #nextId = 1;
+  /** The timestamp of the latest frame, for the callbacks it runs */
+  time = 0;
+
+  readonly #frame: CustomAnimationFrame;
+  readonly #interval: CustomInterval;
+  /** The pending frame request of each timer */
+  readonly #requests = new Map<number, unknown>();
+
+  constructor(
+    frame: CustomAnimationFrame | undefined,
+    interval: CustomInterval,
+  ) {
+    this.#interval = interval;
+    this.#frame = frame ?? defaultAnimationFrame(interval);
+  }
+
+  set(handler: () => void): number {
+    const id = this.#nextId++;
+    const loop = () =>
+      this.#request(id, () => {
+        // Request the next frame first, so that clearing from the handler works
+        loop();
+        handler();
+      });
+    loop();
+    return id;
+  }
+
+  once(handler: () => void): number {
+    const id = this.#nextId++;
+    this.#request(id, () => {
+      this.#requests.delete(id);
+      handler();
+    });
+    return id;
+  }
+
+  clear(id: number): void {
+    if (!this.#requests.has(id)) return;
+
+    this.#frame.cancel(this.#requests.get(id));
+    this.#requests.delete(id);
+  }
+
+  now(): number {
+    return now(this.#interval);
+  }
+
+  #request(id: number, handler: () => void) {
+    this.#requests.set(
+      id,
+      this.#frame.request((time) => {
+        this.time = time;
+        handler();
+      }),
+    );
+  }
+}
+
+interface IdleTimer {
+  timerId: unknown;
+  /** The pending idle request, if the thread hasn't been idle since the tick */
+  idleId: unknown;
+}
+
+/**
+ * Adapts idle callbacks to the {@link CustomInterval} of the idle buckets: their
+ * timers wait for the thread to be idle after each tick of the interval.
+ */
+export class IdleInterval implements CustomInterval<number> {
+  #nextId = 1;
+  /** The deadline of the latest idle period, for the callbacks it runs */
+  deadline: IdleDeadline | undefined;
+
+  readonly #idle: CustomIdleCallback;
+  readonly #interval: CustomInterval;
+  readonly #timers = new Map<number, IdleTimer>();
+
+  constructor(idle: CustomIdleCallback | undefined, interval: CustomInterval) {
+    this.#interval = interval;
+    this.#idle = idle ?? defaultIdleCallback(interval);
+  }
+
+  set(handler: () => void, timeout: number): number {
+    const id = this.#nextId++;
+    const timer: IdleTimer = { timerId: undefined, idleId: undefined };
+    this.#timers.set(id, timer);
+
+    timer.timerId = this.#interval.set(() => {
+      // Ticks while the thread is still busy since the previous one are merged
+      if (timer.idleId === undefined) this.#requestIdle(timer, handler);
+    }, timeout);
+    return id;
+  }
+
+  once(handler: () => void, timeout: number): number {
+    const id = this.#nextId++;
+    const timer: IdleTimer = { timerId: undefined, idleId: undefined };
+    this.#timers.set(id, timer);
+
+    timer.timerId = setOnce(
+      this.#interval,
+      () => {
+        timer.timerId = undefined;
+        this.#requestIdle(timer, () => {
+          this.#timers.delete(id);
+          handler();
+        });
+      },
+      timeout,
+    );
+    return id;
+  }
+
+  clear(id: number): void {
+    const timer = this.#timers.get(id);
+    if (!timer) return;
+
+    this.#timers.delete(id);
+    if (timer.timerId !== undefined) this.#interval.clear(timer.timerId);
+    if (timer.idleId !== undefined) this.#idle.cancel(timer.idleId);
+  }
+
+  now(): number {
+    return now(this.#interval);
+  }
+
+  #requestIdle(timer: IdleTimer, handler: () => void) {
+    timer.idleId = this.#idle.request((deadline) => {
+      timer.idleId = undefined;
+      this.deadline = deadline;
+      handler();
+    });
+  }
+}
@@ -1,21 +1,518 @@
+import type { ActivitySignal } from "./activity";
 import {
+  defaultErrorHandler,
   IntervalBucket,
+  isPromiseLike,
+  normalizePhase,
+  now,
+  setOnce,
+  type BucketKind,
   type IntervalCallback,
+  type IntervalErrorContext,
+  type IntervalErrorHandler,
   type IntervalSubscription,
+  type InactivePolicy,
+  type OverlapPolicy,
+  type ResumeMode,
   type UnsubscribeFunction,
 } from "./bucket";
+import { CronExpression } from "./cron";
+import {
+  EventEmitter,
+  type IntervalPoolEventListener,
+  type IntervalPoolEventMap,
+} from "./events";
+import {
+  FRAME_DELAY,
+  FrameInterval,
+  IdleInterval,
+  type CustomAnimationFrame,
+  type CustomIdleCallback,
+  type FrameCallback,
+  type IdleCallback,
+} from "./frame";
+import { MetricsCollector, type MetricsOptions } from "./metrics";
+import {
+  createClosed,
+  createSubscription,
+  type Subscription,
+} from "./subscription";
 
-export type { IntervalCallback, UnsubscribeFunction };
+export {
+  batterySignal,
+  ManualActivitySignal,
+  onlineSignal,
+  visibilitySignal,
+  type ActivityEventTarget,
+  type ActivitySignal,
+  type BatterySignalOptions,
+  type BatteryStatus,
+} from "./activity";
+export {
+  VirtualClock,
+  type VirtualClockOptions,
+  type VirtualTimer,
+} from "./clock";
+export { CronExpression } from "./cron";
+export {
+  DriftCorrectingInterval,
+  type DriftCorrectingIntervalOptions,
+  type DriftStats,
+  type StallPolicy,
+} from "./drift";
+export type {
+  CustomAnimationFrame,
+  CustomIdleCallback,
+  FrameCallback,
+  IdleCallback,
+} from "./frame";
+export type {
+  IntervalEventTarget,
+  IntervalPoolErrorEvent,
+  IntervalPoolEventListener,
+  IntervalPoolEventMap,
+  IntervalTickEvent,
+  SubscriptionEvent,
+} from "./events";
+export {
+  MetricsCollector,
+  type HistogramSnapshot,
+  type IntervalMetrics,
+  type MetricsOptions,
+  type MetricsSnapshot,
+  type SlowCallbackInfo,
+  type SubscriptionMetrics,
+} from "./metrics";
+export {
+  SingleTimerScheduler,
+  type SingleTimerSchedulerOptions,
+} from "./scheduler";
+export {
+  SharedInterval,
+  type BroadcastChannelLike,
+  type SharedIntervalOptions,
+} from "./shared";
+export {
+  WorkerInterval,
+  type WorkerFactory,
+  type WorkerIntervalOptions,
+  type WorkerLatencyStats,
+  type WorkerLike,
+} from "./worker";
+export type {
+  BucketKind,
+  IntervalCallback,
+  IntervalErrorContext,
+  IntervalErrorHandler,
+  InactivePolicy,
+  OverlapPolicy,
+  ResumeMode,
+  Subscription,
+  UnsubscribeFunction,
+};
 
 /** For custom interval */
 export interface CustomInterval<TId = any> {
-  set: (handler: IntervalCallback, timeout: number) => TId;
+  set: (handler: () => void, timeout: number) => TId;
   clear: (id: TId) => void;
+  /**
+   * Runs `handler` once after `timeout` milliseconds; the returned id can be
+   * cancelled with `clear`. Defaults to a `set` cleared on its first call.
+   * Implementations that share the `set` timers, like {@link SharedInterval},
+   * provide it so that one-shot timers keep their exact timeout.
+   */
+  once?: (handler: () => void, timeout: number) => TId;
+  /**
+   * Returns the current time in milliseconds, for features that depend on the
+   * wall clock such as cron schedules. Defaults to `Date.now`.
+   */
+  now?: () => number;
 }
 
 export interface IntervalPoolOptions {
   /** Custom implementation of `setInterval`, `clearInterval` */
   interval?: CustomInterval;
+  /**
+   * Handles errors thrown (or rejected) by callbacks. Defaults to logging them
+   * with `console.error`.
+   */
+  onError?: IntervalErrorHandler;
+  /** Default `align` option for every subscription of the pool */
+  align?: IntervalAlignment;
+  /** Default `tolerance` option for every subscription of the pool */
+  tolerance?: IntervalTolerance;
+  /**
+   * Signals telling whether the environment is active, such as
+   * {@link visibilitySignal} or {@link onlineSignal}. The pool is inactive while
+   * any of them is.
+   */
+  activity?: ActivitySignal | readonly ActivitySignal[];
+  /** Default `inactive` option for every subscription of the pool */
+  inactive?: InactivePolicy;
+  /** Clears the whole pool when aborted, like {@link IntervalPool.clear} */
+  signal?: AbortSignal;
+  /**
+   * Collects tick drift, callback durations and error counts, available through
+   * {@link IntervalPool.metrics}. Disabled by default, in which case nothing is
+   * measured.
+   */
+  metrics?: boolean | MetricsOptions;
+  /**
+   * Custom implementation of `requestAnimationFrame`, `cancelAnimationFrame`
+   * for {@link IntervalPool.frame}. Defaults to the native ones, or to frames
+   * emulated at 60 per second with `interval` where there are none.
+   */
+  animationFrame?: CustomAnimationFrame;
+  /**
+   * Custom implementation of `requestIdleCallback`, `cancelIdleCallback` for
+   * {@link IntervalPool.idle}. Defaults to the native ones, or to a 50ms idle
+   * period right after the tick where there are none.
+   */
+  idleCallback?: CustomIdleCallback;
+}
+
+/**
+ * Snaps ticks to the wall clock. `true` makes them happen at multiples of the
+ * delay since the epoch (a 60000ms interval fires at every :00 second), a
+ * number shifts them by that many milliseconds, and `false` starts the phase
+ * whenever the interval starts.
+ */
+export type IntervalAlignment = boolean | number;
+
+/**
+ * How far an existing interval's delay may be from the requested one for a
+ * subscription to join it instead of creating a new interval, either in
+ * milliseconds or as a percentage of the requested delay (`"5%"`).
+ */
+export type IntervalTolerance = number | `${number}%`;
+
+export interface SubscriptionOptions {
+  /**
+   * Identifies the subscription in error contexts and in the `before`/`after`
+   * options of others
+   */
+  label?: string;
+  /** Handles this subscription's errors instead of the pool `onError` */
+  onError?: IntervalErrorHandler;
+  /**
+   * Aligns the ticks to the wall clock. Aligned and unaligned subscriptions
+   * with the same delay use separate intervals. Defaults to the pool `align`
+   * option.
+   */
+  align?: IntervalAlignment;
+  /**
+   * Lets the subscription join an existing interval whose delay is within this
+   * tolerance of `delay`; the closest one wins. Defaults to the pool
+   * `tolerance` option, `0` meaning exact matches only.
+   */
+  tolerance?: IntervalTolerance;
+  /**
+   * What to do while the pool `activity` signals are inactive. Defaults to the
+   * pool `inactive` option, which defaults to `"pause"`.
+   */
+  inactive?: InactivePolicy;
+  /**
+   * Subscriptions sharing an interval run in descending priority on each tick,
+   * then in the order they were added. Defaults to `0`.
+   */
+  priority?: number;
+  /**
+   * Labels of the subscriptions this one runs before on the ticks they share,
+   * regardless of priorities. Labels without a subscription on the same
+   * interval are ignored.
+   */
+  before?: readonly string[];
+  /** Labels of the subscriptions this one runs after, like `before`. */
+  after?: readonly string[];
+  /** Unsubscribes when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * What an iteration does with the ticks that arrive while its consumer is busy:
+ *
+ * - `"burst"`: keep them all and yield them back-to-back (default).
+ * - `"drop"`: drop them, only yielding the ticks that arrive while waiting.
+ * - `"latest"`: keep only the most recent one.
+ * - `{ buffer: n }`: keep the `n` most recent ones.
+ */
+export type OverflowPolicy = "burst" | "drop" | "latest" | { buffer: number };
+
+/** A tick yielded by an iteration. */
+export interface IntervalTick {
+  /** The position of the tick since the iteration started, from `0` */
+  index: number;
+  /** When the tick was due */
+  scheduledAt: number;
+  /** When the tick actually happened */
+  firedAt: number;
+  /** How many ticks were dropped right before this one */
+  missed: number;
+}
+
+export interface OnceOptions extends SubscriptionOptions {
+  /**
+   * Guarantees that at least `delay` milliseconds pass before the callback
+   * runs. It still joins an existing interval if it ticks within `window` after
+   * that, and otherwise gets an interval of its own that ticks exactly `delay`
+   * milliseconds from now.
+   */
+  precise?: boolean;
+  /**
+   * How much later than `delay` a precise callback may run to share an existing
+   * interval, either in milliseconds or as a percentage of `delay`. Defaults to
+   * the `tolerance` option.
+   */
+  window?: IntervalTolerance;
+}
+
+/**
+ * Limits after which a subscription removes itself. When several are given, the
+ * first one reached ends it.
+ */
+export interface SubscriptionLimits {
+  /** Ends the subscription after this many runs */
+  times?: number;
+  /** Ends the subscription at this time, as a `Date` or a timestamp */
+  until?: Date | number;
+  /** Ends the subscription this many milliseconds after it starts */
+  maxDuration?: number;
+  /**
+   * Called when a limit ends the subscription, but not when it ends otherwise
+   * (e.g. unsubscribed or cleared)
+   */
+  onComplete?: () => void;
+}
+
+export interface IterateOptions extends SubscriptionLimits {
+  /**
+   * What to do with the ticks that arrive while the consumer is busy. Passing
+   * it makes the iteration yield {@link IntervalTick} objects. Defaults to
+   * `"burst"`.
+   */
+  overflow?: OverflowPolicy;
+  /** Ends the iteration when aborted, even while waiting for a tick */
+  signal?: AbortSignal;
+  /**
+   * What the iteration does once `signal` aborts: throw the abort reason (an
+   * `AbortError` unless given another one) with `"throw"`, the default, or
+   * finish normally with `"return"`.
+   */
+  onAbort?: "throw" | "return";
+}
+
+/**
+ * What an iteration with the options `TOptions` yields: {@link IntervalTick}
+ * objects when they have an `overflow` policy, nothing when they don't, and
+ * either when that is only known at runtime.
+ */
+export type IteratedValue<TOptions extends IterateOptions> = TOptions extends {
+  overflow: OverflowPolicy;
+}
+  ? IntervalTick
+  : TOptions extends { overflow?: undefined }
+    ? void
+    : IntervalTick | void;
+
+/** Statistics about one of the pool intervals. */
+export interface IntervalStats {
+  /** The effective delay of the interval */
+  delay: number;
+  /** The distinct delays its subscriptions asked for, in ascending order */
+  requestedDelays: number[];
+  subscriptionCount: number;
+  /** The wall-clock phase of aligned intervals, in `[0, delay)` */
+  phase?: number;
+  /** Set for the frame and idle intervals */
+  kind?: BucketKind;
+}
+
+export interface RunOptions extends SubscriptionOptions, SubscriptionLimits {
+  /**
+   * What to do when the callback returns a promise that is still pending on the
+   * next tick. Defaults to `"parallel"`.
+   */
+  overlap?: OverlapPolicy;
+  /** Unsubscribes automatically after this many failed runs in a row */
+  maxConsecutiveErrors?: number;
+  /**
+   * Delays each run by a random offset, up to this many milliseconds (capped at
+   * the delay), so that subscriptions sharing an interval don't all run at the
+   * same instant. Pass a `seed` for a reproducible sequence of offsets.
+   */
+  jitter?: IntervalJitter;
+  /**
+   * Distributes the runs of the interval's spread subscriptions evenly across
+   * its period: with four of them on a 1000ms interval, they run 0, 250, 500
+   * and 750ms after each tick. Cannot be combined with `jitter`.
+   */
+  spread?: boolean;
+}
+
+export interface BackoffOptions extends RunOptions {
+  /** Multiplies the delay after each failed run. Defaults to `2`. */
+  factor?: number;
+  /** The longest delay to back off to. Defaults to 32 times the base delay. */
+  maxDelay?: number;
+  /**
+   * Whether a successful run returns the subscription straight to the base
+   * delay (`true`, the default) or only one step down.
+   */
+  resetOnSuccess?: boolean;
+}
+
+/**
+ * Frame and idle subscriptions run at the pace of the browser, so they can't be
+ * aligned, joined by tolerance, jittered or spread.
+ */
+export type FrameOptions = Omit<
+  RunOptions,
+  "align" | "tolerance" | "jitter" | "spread"
+>;
+
+export type IdleOptions = FrameOptions;
+
+/** The maximum jitter in milliseconds, optionally with a seed. */
+export type IntervalJitter = number | { max: number; seed?: number };
+
+export interface ScopeOptions {
+  /** Clears the scope when aborted, like {@link IntervalPool.clear} */
+  signal?: AbortSignal;
+}
+
+export interface CronOptions extends RunOptions {
+  /**
+   * IANA time zone the expression is evaluated in, such as
+   * `"America/New_York"`. Defaults to the local time zone.
+   */
+  timezone?: string;
+}
+
+/**
+ * Cron subscriptions share the aligned bucket of this delay and check on each
+ * tick whether their next occurrence is due.
+ */
+const CRON_RESOLUTION = 1000;
+
+/** The longest timeout native timers accept, beyond which they fire at once */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+function resolveTolerance(tolerance: IntervalTolerance, delay: number) {
+  if (typeof tolerance === "number") return tolerance;
+
+  const percentage = Number(tolerance.slice(0, -1));
+  if (!tolerance.endsWith("%") || Number.isNaN(percentage)) {
+    throw new Error(`Invalid tolerance "${tolerance}"`);
+  }
+  return (delay * percentage) / 100;
+}
+
+function validateInactivePolicy(policy: InactivePolicy) {
+  if (
+    typeof policy === "object" &&
+    (!Number.isInteger(policy.slowdown) || policy.slowdown < 1)
+  ) {
+    throw new Error(`Invalid slowdown factor ${policy.slowdown}`);
+  }
+}
+
+/**
+ * Validates the limits of a subscription starting at `now`.
+ *
+ * @returns When it ends at the latest, or `undefined` if it is not time-boxed
+ */
+function resolveLimits(
+  limits: SubscriptionLimits | undefined,
+  now: number,
+): number | undefined {
+  const { times, until, maxDuration } = limits ?? {};
+
+  if (times !== undefined && (!Number.isInteger(times) || times < 1)) {
+    throw new Error(`Invalid times ${times}`);
+  }
+  if (maxDuration !== undefined && !(maxDuration >= 0)) {
+    throw new Error(`Invalid maxDuration ${maxDuration}`);
+  }
+  const untilTime = until instanceof Date ? until.getTime() : until;
+  if (untilTime !== undefined && Number.isNaN(untilTime)) {
+    throw new Error(`Invalid until ${String(until)}`);
+  }
+
+  if (untilTime === undefined && maxDuration === undefined) return undefined;
+  return Math.min(untilTime ?? Infinity, now + (maxDuration ?? Infinity));
+}
+
+/**
+ * A small seeded pseudo-random generator (mulberry32), a reproducible
+ * replacement for `Math.random`.
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createJitter(jitter: IntervalJitter): () => number {
+  const { max, seed } = typeof jitter === "number" ? { max: jitter } : jitter;
+  if (!(max >= 0)) {
+    throw new Error(`Invalid jitter ${max}`);
+  }
+
+  const random = seed === undefined ? Math.random : seededRandom(seed);
+  return () => random() * max;
+}
+
+/**
+ * Makes sure a generator works with `await using`, as runtimes without explicit
+ * resource management don't implement it on generators yet.
+ */
+function asyncDisposable<T>(
+  generator: AsyncGenerator<T, void, unknown>,
+): AsyncGenerator<T, void, unknown> {
+  if (!generator[Symbol.asyncDispose]) {
+    Object.defineProperty(generator, Symbol.asyncDispose, {
+      value: async () => {
+        await generator.return();
+      },
+    });
+  }
+  return generator;
+}
+
+function bufferCapacity(overflow: OverflowPolicy): number {
+  if (overflow === "burst") return Infinity;
+  if (overflow === "drop") return 0;
+  if (overflow === "latest") return 1;
+
+  if (!Number.isInteger(overflow.buffer) || overflow.buffer < 0) {
+    throw new Error(`Invalid overflow buffer ${overflow.buffer}`);
+  }
+  return overflow.buffer;
+}
+
+/** A subscription made through a scope, and where it lives in the root pool. */
+interface ScopedSubscription {
+  readonly bucket: IntervalBucket;
+  readonly entry: IntervalSubscription;
+  /**
+   * The scopes holding the subscription paused, shared by all of them so that
+   * it resumes once none does
+   */
+  readonly pausedBy: Set<IntervalPool>;
+}
+
+function bucketKey(
+  delay: number,
+  phase: number | undefined,
+  kind?: BucketKind,
+): string {
+  if (kind) return `${kind}:${delay}`;
+  return phase === undefined ? `${delay}` : `${delay}@${phase}`;
 }
 
 /**
@@ -42,21 +539,83 @@ export interface IntervalPoolOptions {
  *   ```;
  */
 export class IntervalPool {
-  /** Map of interval durations to their corresponding subscription buckets */
-  #buckets = new Map<number, IntervalBucket>();
+  /**
+   * Map of interval durations (and phases, for aligned intervals) to their
+   * corresponding subscription buckets
+   */
+  #buckets = new Map<string, IntervalBucket>();
   #interval: CustomInterval;
+  #onError: IntervalErrorHandler | undefined;
+  #align: IntervalAlignment;
+  #tolerance: IntervalTolerance;
+  #paused = false;
+  #pausedDelays = new Set<number>();
+  #inactive: InactivePolicy;
+  #signals: readonly ActivitySignal[];
+  #active = true;
+  /** Removes the signal listeners, which are only kept while there are buckets */
+  #unwatchSignals: UnsubscribeFunction[] = [];
+  #signal: AbortSignal | undefined;
+  #metrics: MetricsCollector | undefined;
+  #events = new EventEmitter<IntervalPoolEventMap>();
+  #disposed = false;
+  #animationFrame: CustomAnimationFrame | undefined;
+  #idleCallback: CustomIdleCallback | undefined;
+  /** The intervals of the frame and idle buckets, created on first use */
+  #frames: FrameInterval | undefined;
+  #idle: IdleInterval | undefined;
+  /** The pool this one is a scope of, see {@link IntervalPool.scope} */
+  #parent: IntervalPool | undefined;
+  /** The subscriptions made through this scope and its nested scopes */
+  #owned = new Map<Subscription, ScopedSubscription>();
 
   constructor(options?: IntervalPoolOptions) {
     this.#interval = options?.interval ?? {
       set: setInterval,
       clear: clearInterval,
     };
+    this.#onError = options?.onError;
+    this.#align = options?.align ?? false;
+    this.#tolerance = options?.tolerance ?? 0;
+    this.#inactive = options?.inactive ?? "pause";
+    validateInactivePolicy(this.#inactive);
+    this.#signals = [options?.activity ?? []].flat();
+    if (options?.metrics) {
+      this.#metrics = new MetricsCollector(
+        options.metrics === true ? undefined : options.metrics,
+      );
+    }
+    this.#animationFrame = options?.animationFrame;
+    this.#idleCallback = options?.idleCallback;
+    this.#signal = options?.signal;
+    this.#signal?.addEventListener("abort", this.#onAbort, { once: true });
+  }
+
+  #onAbort = () => this.clear();
+
+  #now(): number {
+    return now(this.#interval);
+  }
+
+  /** The pool owning the buckets, the outermost parent of a scope. */
+  #root(): IntervalPool {
+    return this.#parent ? this.#parent.#root() : this;
+  }
+
+  /** This scope and its parent scopes, up to the root pool (excluded). */
+  #scopes(): IntervalPool[] {
+    return this.#parent ? [this, ...this.#parent.#scopes()] : [];
   }
 
   /**
    * Runs a callback at regular intervals. Multiple callbacks with the same
    * delay share the same underlying interval.
    *
+   * The callback may be async. Rejections are handled like synchronous errors,
+   * and `options.overlap` decides whether a tick starts a new run while the
+   * previous one is still pending. `options.times`, `options.until` and
+   * `options.maxDuration` end the subscription on their own.
+   *
    * @example
    *   ```typescript
    *   const pool = new IntervalPool();
@@ -66,14 +625,225 @@ export class IntervalPool {
    *
    *   // Stop after 5 seconds
    *   setTimeout(unsubscribe, 5000);
+   *
+   *   // Skip ticks while a slow request is still in flight
+   *   pool.run(5000, async () => fetchDashboard(), { overlap: 'skip' });
+   *
+   *   // Poll for 2 minutes at most
+   *   pool.run(1000, checkStatus, { maxDuration: 120_000, onComplete: giveUp });
    *   ```;
    *
    * @param delay - The time in milliseconds between executions
    * @param callback - The function to execute at each interval
-   * @returns An unsubscribe function to stop the execution
+   * @param options - Subscription options
+   * @returns A {@link Subscription} handle; call it to stop the execution
    */
-  run(delay: number, callback: IntervalCallback): UnsubscribeFunction {
-    return this.#subscribe(delay, { callback });
+  run(
+    delay: number,
+    callback: IntervalCallback,
+    options?: RunOptions,
+  ): Subscription {
+    return this.#subscribe(
+      delay,
+      this.#runSubscription(callback, options),
+      options,
+    );
+  }
+
+  #runSubscription(
+    callback: IntervalCallback,
+    options: RunOptions | undefined,
+  ): IntervalSubscription {
+    if (options?.spread && options.jitter !== undefined) {
+      throw new Error("Cannot combine jitter and spread");
+    }
+
+    return {
+      callback,
+      overlap: options?.overlap,
+      label: options?.label,
+      onError: options?.onError,
+      maxConsecutiveErrors: options?.maxConsecutiveErrors,
+      jitter:
+        options?.jitter === undefined
+          ? undefined
+          : createJitter(options.jitter),
+      spread: options?.spread,
+    };
+  }
+
+  /**
+   * Runs a callback at regular intervals, backing off after failed runs:
+   * whenever the callback throws or rejects, the subscription moves to the
+   * interval of the delay multiplied by `options.factor`, up to
+   * `options.maxDelay`, and after a success it returns to the base delay. The
+   * delays are regular pool intervals, shared with any other subscription, so
+   * `getStats()` shows the subscription under its current delay.
+   *
+   * Errors are still reported to the error handlers, and
+   * `options.maxConsecutiveErrors` counts failures across delays. Use
+   * `options.jitter` to keep backed-off clients from retrying in lockstep.
+   *
+   * @example
+   *   ```typescript
+   *   // 1s, then 2s, 4s... up to 30s while the endpoint keeps failing
+   *   pool.runWithBackoff(1000, () => fetchStatus(), { maxDelay: 30_000 });
+   *   ```;
+   *
+   * @param delay - The base time in milliseconds between executions
+   * @param callback - The function to execute at each interval
+   * @param options - Backoff and subscription options
+   * @returns A {@link Subscription} handle; call it to stop the execution
+   */
+  runWithBackoff(
+    delay: number,
+    callback: IntervalCallback,
+    options?: BackoffOptions,
+  ): Subscription {
+    const factor = options?.factor ?? 2;
+    const maxDelay = options?.maxDelay ?? delay * 32;
+    const resetOnSuccess = options?.resetOnSuccess ?? true;
+    const maxConsecutiveErrors = options?.maxConsecutiveErrors;
+
+    if (!(factor > 1)) {
+      throw new Error(`Invalid backoff factor ${factor}`);
+    }
+    if (!(maxDelay >= delay)) {
+      throw new Error(
+        `The maximum delay ${maxDelay} is shorter than the delay ${delay}`,
+      );
+    }
+
+    const delayFor = (level: number) =>
+      Math.min(delay * factor ** level, maxDelay);
+    // The limits span the moves between intervals
+    const times = options?.times;
+    const deadline = resolveLimits(options, this.#now());
+    const runOptions = (): RunOptions => ({
+      ...options,
+      maxConsecutiveErrors: undefined,
+      times: times === undefined ? undefined : times - runCount,
+      until: deadline,
+      maxDuration: undefined,
+      onComplete: () => {
+        end();
+        options?.onComplete?.();
+      },
+    });
+
+    let level = 0;
+    let failures = 0;
+    let paused = false;
+    let ended = false;
+    let runCount = 0;
+    let lastRunAt: number | undefined;
+    let current: Subscription;
+    const [closed, close] = createClosed();
+
+    const end = () => {
+      ended = true;
+      close();
+    };
+
+    const follow = (subscription: Subscription) => {
+      current = subscription;
+      // Ending for any reason other than a move (e.g. `clear()`) ends it all
+      void subscription.closed.then(() => {
+        if (current === subscription) end();
+      });
+    };
+
+    const moveTo = (nextLevel: number) => {
+      const previous = delayFor(level);
+      level = nextLevel;
+      // The last run completes the current subscription, so there's no moving
+      if (ended || delayFor(level) === previous || runCount === times) return;
+
+      const subscription = current;
+      follow(this.run(delayFor(level), run, runOptions()));
+      subscription();
+      if (paused) current.pause();
+    };
+
+    const onSuccess = () => {
+      failures = 0;
+      moveTo(resetOnSuccess ? 0 : Math.max(0, level - 1));
+    };
+
+    const onFailure = () => {
+      if (
+        maxConsecutiveErrors !== undefined &&
+        ++failures >= maxConsecutiveErrors
+      ) {
+        end();
+        current();
+        return;
+      }
+      // Stop climbing once capped, so that stepping down takes effect at once
+      moveTo(delayFor(level) < maxDelay ? level + 1 : level);
+    };
+
+    const run = () => {
+      runCount++;
+      lastRunAt = this.#now();
+
+      let result: unknown;
+      try {
+        result = callback();
+      } catch (error) {
+        onFailure();
+        throw error;
+      }
+
+      if (!isPromiseLike(result)) {
+        onSuccess();
+        return result;
+      }
+
+      return Promise.resolve(result).then(
+        (value) => {
+          onSuccess();
+          return value;
+        },
+        (error: unknown) => {
+          onFailure();
+          throw error;
+        },
+      );
+    };
+
+    follow(this.run(delay, run, runOptions()));
+
+    return createSubscription({
+      unsubscribe: () => {
+        end();
+        current();
+      },
+      pause: () => {
+        paused = true;
+        current.pause();
+      },
+      resume: (mode) => {
+        paused = false;
+        current.resume(mode);
+      },
+      get paused() {
+        return paused;
+      },
+      get active() {
+        return !ended && current.active;
+      },
+      get runCount() {
+        return runCount;
+      },
+      get lastRunAt() {
+        return lastRunAt;
+      },
+      get nextRunAt() {
+        return current.nextRunAt;
+      },
+      closed,
+    });
   }
 
   /**
@@ -81,42 +851,617 @@ export class IntervalPool {
    *
    * IMPORTANT: This does not guarantee execution after exactly `delay`
    * milliseconds, but rather on the next tick of the interval pool for the
-   * specified delay.
+   * specified delay, unless `options.precise` is set.
+   *
+   * @example
+   *   ```typescript
+   *   // On the next tick of the shared 1000ms interval
+   *   pool.once(1000, refresh);
+   *
+   *   // At least 1000ms from now, sharing an interval ticking by then if any
+   *   pool.once(1000, refresh, { precise: true, window: 50 });
+   *   ```;
+   */
+  once(
+    delay: number,
+    callback: IntervalCallback,
+    options?: OnceOptions,
+  ): Subscription {
+    return this.#subscribe(
+      delay,
+      {
+        callback,
+        once: true,
+        label: options?.label,
+        onError: options?.onError,
+      },
+      options,
+    );
+  }
+
+  /**
+   * Waits for the next tick of the interval for `delay`, like
+   * {@link IntervalPool.once}.
+   *
+   * @example
+   *   ```typescript
+   *   await pool.next(1000);
+   *   ```;
+   *
+   * @returns A promise that resolves on the tick, or rejects if the wait is
+   *   aborted or the pool cleared first
+   */
+  next(delay: number, options?: SubscriptionOptions): Promise<void> {
+    return this.#wait(delay, options);
+  }
+
+  /**
+   * Waits at least `delay` milliseconds, sharing an existing interval that
+   * ticks within `options.window` after that. See the `precise` option of
+   * {@link IntervalPool.once}.
+   *
+   * @example
+   *   ```typescript
+   *   // Resolves 500-550ms from now
+   *   await pool.sleep(500, { window: 50 });
+   *   ```;
+   *
+   * @returns A promise that resolves once the time has passed, or rejects if
+   *   the wait is aborted or the pool cleared first
+   */
+  sleep(delay: number, options?: Omit<OnceOptions, "precise">): Promise<void> {
+    return this.#wait(delay, { ...options, precise: true });
+  }
+
+  #wait(delay: number, options?: OnceOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const subscription = this.once(delay, () => resolve(), options);
+
+      void subscription.closed.then(() => {
+        if (subscription.runCount > 0) return;
+
+        const signal = options?.signal?.aborted ? options.signal : this.#signal;
+        reject(
+          signal?.aborted
+            ? signal.reason
+            : new Error("The pool was cleared before the wait finished"),
+        );
+      });
+    });
+  }
+
+  /**
+   * Runs a callback on a cron schedule. Cron subscriptions share the pool's
+   * aligned one-second bucket, checking on each of its ticks whether the next
+   * occurrence is due, so any number of schedules costs a single timer. Only
+   * the occurrences count as runs, for `times`, `maxConsecutiveErrors` and the
+   * subscription handle.
+   *
+   * @example
+   *   ```typescript
+   *   const pool = new IntervalPool();
+   *
+   *   // Every 5 minutes, on the :00/:05 marks
+   *   pool.cron('*\/5 * * * *', refreshDashboard);
+   *
+   *   // Weekdays at 09:00 in Madrid
+   *   pool.cron('0 9 * * MON-FRI', sendReport, { timezone: 'Europe/Madrid' });
+   *   ```;
+   *
+   * @param expression - A 5-field (minutes) or 6-field (seconds) cron
+   *   expression. See {@link CronExpression}.
+   * @param callback - The function to execute on each occurrence
+   * @param options - Subscription options and the time zone of the schedule
+   * @returns A {@link Subscription} handle; call it to stop the execution
+   * @throws If the expression or the time zone is invalid
    */
-  once(delay: number, callback: IntervalCallback): UnsubscribeFunction {
-    return this.#subscribe(delay, { callback, once: true });
+  cron(
+    expression: string,
+    callback: IntervalCallback,
+    options?: CronOptions,
+  ): Subscription {
+    const schedule = CronExpression.parse(expression);
+    const timezone = options?.timezone;
+    let next = schedule.next(this.#now(), timezone);
+
+    return this.#subscribe(
+      CRON_RESOLUTION,
+      {
+        ...this.#runSubscription(callback, options),
+        dueAt: () => {
+          // Occurrences no tick came for, e.g. while paused, are skipped
+          const time = this.#now();
+          if (time >= next + CRON_RESOLUTION) {
+            next = schedule.next(time - CRON_RESOLUTION, timezone);
+          }
+          return next;
+        },
+        // The occurrence is consumed whether or not the callback runs
+        onDue: (time) => {
+          next = schedule.next(time, timezone);
+        },
+      },
+      // Cron schedules need the exact second marks
+      { ...options, align: true, tolerance: 0 },
+    );
+  }
+
+  /**
+   * Runs a callback on every animation frame, with the timestamp of the frame.
+   * Every frame callback of the pool shares a single `requestAnimationFrame`
+   * loop, which stops once the last one unsubscribes. Without animation frames
+   * (e.g. in Node), they are emulated at 60 per second, unless the pool has an
+   * `animationFrame` implementation.
+   *
+   * @example
+   *   ```typescript
+   *   const pool = new IntervalPool();
+   *   let last = performance.now();
+   *
+   *   pool.frame((time) => {
+   *     update((time - last) / 1000);
+   *     render();
+   *     last = time;
+   *   });
+   *   ```;
+   *
+   * @param callback - The function to execute on each frame
+   * @param options - Subscription options
+   * @returns A {@link Subscription} handle; call it to stop the execution
+   */
+  frame(callback: FrameCallback, options?: FrameOptions): Subscription {
+    const root = this.#root();
+    root.#frames ??= new FrameInterval(root.#animationFrame, root.#interval);
+    const frames = root.#frames;
+
+    return this.#subscribe(
+      FRAME_DELAY,
+      {
+        callback: () => callback(frames.time),
+        overlap: options?.overlap,
+        label: options?.label,
+        onError: options?.onError,
+        maxConsecutiveErrors: options?.maxConsecutiveErrors,
+      },
+      options,
+      "frame",
+    );
+  }
+
+  /**
+   * Runs a callback at regular intervals, each time waiting for the thread to
+   * be idle, with the `IdleDeadline` telling how much idle time is left. Use it
+   * for low-priority work that can be split, checking
+   * `deadline.timeRemaining()` between the chunks. Idle callbacks with the same
+   * delay share the same interval and idle request, separate from the regular
+   * intervals of that delay, and the ticks while the thread is still busy are
+   * merged.
+   *
+   * Without idle callbacks (e.g. in Node), the callbacks run right after the
+   * tick with a 50ms deadline, unless the pool has an `idleCallback`
+   * implementation.
+   *
+   * @example
+   *   ```typescript
+   *   pool.idle(10_000, (deadline) => {
+   *     while (queue.length > 0 && deadline.timeRemaining() > 5) {
+   *       sendAnalytics(queue.shift());
+   *     }
+   *   });
+   *   ```;
+   *
+   * @param delay - The time in milliseconds between executions
+   * @param callback - The function to execute once idle after each interval
+   * @param options - Subscription options
+   * @returns A {@link Subscription} handle; call it to stop the execution
+   */
+  idle(
+    delay: number,
+    callback: IdleCallback,
+    options?: IdleOptions,
+  ): Subscription {
+    const root = this.#root();
+    root.#idle ??= new IdleInterval(root.#idleCallback, root.#interval);
+    const idle = root.#idle;
+
+    return this.#subscribe(
+      delay,
+      {
+        callback: () => callback(idle.deadline!),
+        overlap: options?.overlap,
+        label: options?.label,
+        onError: options?.onError,
+        maxConsecutiveErrors: options?.maxConsecutiveErrors,
+      },
+      options,
+      "idle",
+    );
   }
 
   #subscribe(
     delay: number,
     subscription: IntervalSubscription,
-  ): UnsubscribeFunction {
-    this.#upsertBucket(delay).add(subscription);
-    return () => {
-      this.#buckets.get(delay)?.remove(subscription);
+    options?: OnceOptions & SubscriptionLimits,
+    kind?: BucketKind,
+    scopes: readonly IntervalPool[] = [],
+  ): Subscription {
+    if (this.#parent) {
+      return this.#subscribeInScope(delay, subscription, options, kind);
+    }
+    this.#assertNotDisposed();
+
+    const inactive = options?.inactive ?? this.#inactive;
+    validateInactivePolicy(inactive);
+    const startedAt = this.#now();
+    const times = options?.times;
+    const deadline = resolveLimits(options, startedAt);
+    const align = options?.align ?? this.#align;
+    const tolerance = options?.tolerance ?? this.#tolerance;
+    // Zero and negative precise delays are due on the next tick
+    const preciseDelay = Math.max(0, delay);
+    const notBefore = options?.precise ? startedAt + preciseDelay : undefined;
+    const bucket = kind
+      ? this.#upsertKindBucket(kind, delay)
+      : notBefore !== undefined
+        ? this.#upsertPreciseBucket(
+            notBefore,
+            preciseDelay,
+            resolveTolerance(options?.window ?? tolerance, preciseDelay),
+          )
+        : this.#upsertBucket(
+            delay,
+            align === false ? undefined : align === true ? 0 : align,
+            resolveTolerance(tolerance, delay),
+          );
+    const key = bucketKey(bucket.delay, bucket.phase, bucket.kind);
+
+    const signal = options?.signal;
+    let paused = false;
+    let active = true;
+    let runCount = 0;
+    let lastRunAt: number | undefined;
+    let completed = false;
+    let deadlineId: unknown;
+    const [closed, close] = createClosed();
+    // The bucket may have been replaced after emptying, so look it up each time
+    const findBucket = () => this.#buckets.get(key);
+    const onAbort = () => findBucket()?.remove(entry);
+    const complete = () => {
+      if (!active) return;
+      completed = true;
+      findBucket()?.remove(entry);
+    };
+    // Deadlines past the timer limit are waited for in several steps
+    const armDeadline = (remaining: number) => {
+      const wait = Math.min(remaining, MAX_TIMEOUT);
+      deadlineId = setOnce(
+        this.#interval,
+        () => {
+          deadlineId = undefined;
+          if (wait < remaining) armDeadline(deadline! - this.#now());
+          else complete();
+        },
+        wait,
+      );
     };
+
+    const entry: IntervalSubscription = {
+      ...subscription,
+      onError: (error, context) => {
+        this.#events.emit("error", { error, ...context });
+        const onError =
+          subscription.onError ?? this.#onError ?? defaultErrorHandler;
+        onError(error, context);
+      },
+      callback: () => {
+        const now = this.#now();
+        // A tick at the deadline may come before the deadline timer
+        if (deadline !== undefined && now >= deadline) {
+          complete();
+          return;
+        }
+
+        runCount++;
+        lastRunAt = now;
+        try {
+          return subscription.callback();
+        } finally {
+          if (runCount === times) complete();
+        }
+      },
+      requestedDelay: delay,
+      inactive,
+      notBefore,
+      priority: options?.priority,
+      before: options?.before,
+      after: options?.after,
+      onRemove: () => {
+        active = false;
+        scopes.forEach((scope) => scope.#owned.delete(handle));
+        signal?.removeEventListener("abort", onAbort);
+        if (deadlineId !== undefined) this.#interval.clear(deadlineId);
+        close();
+        this.#emitSubscription("unsubscribe", bucket, entry);
+        if (completed) options?.onComplete?.();
+      },
+    };
+
+    const handle = createSubscription({
+      unsubscribe: () => {
+        findBucket()?.remove(entry);
+      },
+      pause: () => {
+        paused = true;
+        findBucket()?.pauseSubscription(entry);
+      },
+      resume: (mode) => {
+        paused = false;
+        findBucket()?.resumeSubscription(entry, mode);
+      },
+      get paused() {
+        return paused;
+      },
+      get active() {
+        return active;
+      },
+      get runCount() {
+        return runCount;
+      },
+      get lastRunAt() {
+        return lastRunAt;
+      },
+      get nextRunAt() {
+        const next = active ? findBucket()?.nextRunAt(entry) : undefined;
+        return next !== undefined && next < (deadline ?? Infinity)
+          ? next
+          : undefined;
+      },
+      closed,
+    });
+
+    bucket.add(entry);
+    this.#emitSubscription("subscribe", bucket, entry);
+    const owned: ScopedSubscription = { bucket, entry, pausedBy: new Set() };
+    scopes.forEach((scope) => scope.#owned.set(handle, owned));
+    if (signal?.aborted || this.#signal?.aborted) {
+      bucket.remove(entry);
+    } else if (deadline !== undefined && deadline <= startedAt) {
+      complete();
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (deadline !== undefined) armDeadline(deadline - startedAt);
+    }
+
+    return handle;
+  }
+
+  /**
+   * Subscribes in the buckets of the root pool, on behalf of this scope and its
+   * parent scopes.
+   */
+  #subscribeInScope(
+    delay: number,
+    subscription: IntervalSubscription,
+    options: (OnceOptions & SubscriptionLimits) | undefined,
+    kind: BucketKind | undefined,
+  ): Subscription {
+    const scopes = this.#scopes();
+    scopes.forEach((scope) => scope.#assertNotDisposed());
+
+    const handle = this.#root().#subscribe(
+      delay,
+      subscription,
+      options,
+      kind,
+      scopes,
+    );
+    const owned = this.#owned.get(handle);
+    if (scopes.some((scope) => scope.#signal?.aborted)) {
+      handle.unsubscribe();
+    } else if (owned) {
+      scopes.forEach((scope) => {
+        if (scope.#paused || scope.#pausedDelays.has(owned.bucket.delay)) {
+          scope.#pauseOwned(handle, owned);
+        }
+      });
+    }
+    return handle;
+  }
+
+  /**
+   * Pauses a subscription of this scope. Subscriptions paused by the caller are
+   * left out, so that resuming the scope doesn't resume them.
+   */
+  #pauseOwned(subscription: Subscription, owned: ScopedSubscription) {
+    if (owned.pausedBy.size === 0) {
+      if (subscription.paused) return;
+      subscription.pause();
+    }
+    owned.pausedBy.add(this);
+  }
+
+  /** Resumes a subscription paused by this scope, unless another scope holds it. */
+  #resumeOwned(
+    subscription: Subscription,
+    owned: ScopedSubscription,
+    mode: ResumeMode | undefined,
+  ) {
+    if (owned.pausedBy.delete(this) && owned.pausedBy.size === 0) {
+      subscription.resume(mode);
+    }
   }
 
   #onEmptyBucket = (bucket: IntervalBucket) => {
     bucket.dispose();
-    this.#buckets.delete(bucket.delay);
+    this.#buckets.delete(bucketKey(bucket.delay, bucket.phase, bucket.kind));
+    this.#emitBucket("bucketDispose", bucket);
+    if (this.#buckets.size === 0) this.#unwatchActivity();
   };
 
-  #upsertBucket(delay: number): IntervalBucket {
-    let bucket = this.#buckets.get(delay);
+  #emitBucket(
+    type: "bucketCreate" | "bucketStart" | "bucketStop" | "bucketDispose",
+    { delay, phase, kind }: IntervalBucket,
+  ) {
+    if (this.#events.has(type)) this.#events.emit(type, { delay, phase, kind });
+  }
 
-    if (!bucket) {
-      bucket = new IntervalBucket(this.#interval, delay, this.#onEmptyBucket);
-      this.#buckets.set(delay, bucket);
+  #emitSubscription(
+    type: "subscribe" | "unsubscribe",
+    { delay, phase, kind }: IntervalBucket,
+    { requestedDelay = delay, label }: IntervalSubscription,
+  ) {
+    if (this.#events.has(type)) {
+      this.#events.emit(type, { delay, phase, kind, requestedDelay, label });
     }
+  }
+
+  #watchActivity() {
+    this.#unwatchSignals = this.#signals.map((signal) =>
+      signal.subscribe(this.#updateActivity),
+    );
+    this.#updateActivity();
+  }
+
+  #unwatchActivity() {
+    this.#unwatchSignals.forEach((unwatch) => unwatch());
+    this.#unwatchSignals = [];
+  }
+
+  #updateActivity = () => {
+    const active = this.#signals.every((signal) => signal.active);
+    if (active === this.#active) return;
+
+    this.#active = active;
+    this.#buckets.forEach((bucket) => bucket.setActive(active));
+  };
+
+  /**
+   * Finds the bucket for `delay`, or the closest compatible one within
+   * `tolerance`, creating it if there is none.
+   *
+   * @param offset - The epoch offset of aligned subscriptions
+   * @param precise - Whether the offset is the time of a precise subscription
+   */
+  #upsertBucket(
+    delay: number,
+    offset: number | undefined,
+    tolerance: number,
+    precise = false,
+  ): IntervalBucket {
+    // Delays of 0 or less have no phase to align to
+    const phaseFor = (bucketDelay: number) =>
+      offset === undefined || !(bucketDelay > 0)
+        ? undefined
+        : normalizePhase(offset, bucketDelay);
+
+    let bucket = this.#buckets.get(bucketKey(delay, phaseFor(delay)));
+
+    if (!bucket && tolerance > 0) {
+      let distance = tolerance;
+      for (const candidate of this.#buckets.values()) {
+        const candidateDistance = Math.abs(candidate.delay - delay);
+        if (
+          candidateDistance <= distance &&
+          candidate.kind === undefined &&
+          candidate.phase === phaseFor(candidate.delay) &&
+          (!bucket || candidateDistance < distance)
+        ) {
+          bucket = candidate;
+          distance = candidateDistance;
+        }
+      }
+    }
+
+    return (
+      bucket ??
+      this.#createBucket(
+        this.#interval,
+        delay,
+        phaseFor(delay),
+        undefined,
+        precise,
+      )
+    );
+  }
+
+  /** Finds the frame or idle bucket for `delay`, creating it if there is none. */
+  #upsertKindBucket(kind: BucketKind, delay: number): IntervalBucket {
+    const interval = kind === "frame" ? this.#frames! : this.#idle!;
+    return (
+      this.#buckets.get(bucketKey(delay, undefined, kind)) ??
+      this.#createBucket(interval, delay, undefined, kind)
+    );
+  }
+
+  #createBucket(
+    interval: CustomInterval,
+    delay: number,
+    phase: number | undefined,
+    kind?: BucketKind,
+    precise?: boolean,
+  ): IntervalBucket {
+    if (this.#buckets.size === 0) this.#watchActivity();
+
+    const bucket = new IntervalBucket(interval, delay, this.#onEmptyBucket, {
+      onError: this.#onError,
+      phase,
+      kind,
+      precise,
+      observer: this.#metrics,
+      onStart: (started) => this.#emitBucket("bucketStart", started),
+      onStop: (stopped) => this.#emitBucket("bucketStop", stopped),
+      onTick: (ticked, tick, time) => {
+        if (!this.#events.has("tick")) return;
+        this.#events.emit("tick", {
+          delay: ticked.delay,
+          phase: ticked.phase,
+          kind: ticked.kind,
+          tick,
+          time,
+          subscriptionCount: ticked.subscriptionCount,
+        });
+      },
+    });
+    if (this.#paused || this.#pausedDelays.has(delay)) bucket.pause();
+    bucket.setActive(this.#active);
+    this.#buckets.set(bucketKey(delay, bucket.phase, kind), bucket);
+    this.#emitBucket("bucketCreate", bucket);
 
     return bucket;
   }
 
+  /**
+   * Finds the bucket with the earliest tick between `target` and `window`
+   * milliseconds later, or creates a bucket aligned to tick exactly at
+   * `target`.
+   */
+  #upsertPreciseBucket(
+    target: number,
+    delay: number,
+    window: number,
+  ): IntervalBucket {
+    let bucket: IntervalBucket | undefined;
+    let tickAt = target + window;
+
+    for (const candidate of this.#buckets.values()) {
+      if (candidate.kind) continue;
+      const candidateTickAt = candidate.firstTickAt(target);
+      if (candidateTickAt !== undefined && candidateTickAt <= tickAt) {
+        bucket = candidate;
+        tickAt = candidateTickAt;
+      }
+    }
+
+    return bucket ?? this.#upsertBucket(delay, target, 0, true);
+  }
+
   /**
    * Creates an async iterable that yields at regular intervals. Useful for
    * async/await patterns with for-await-of loops.
    *
+   * Ticks that arrive while the loop body is still running are yielded
+   * back-to-back afterwards, unless `options.overflow` says otherwise.
+   *
    * @example
    *   ```typescript
    *   const pool = new IntervalPool();
@@ -127,48 +1472,330 @@ export class IntervalPool {
    *     // Break to stop the iteration
    *     if (someCondition) break;
    *   }
+   *
+   *   // Skip the ticks missed by a slow body, but report them
+   *   for await (const tick of pool.iterate(1000, { overflow: 'latest' })) {
+   *     if (tick.missed > 0) console.warn('Skipped ticks:', tick.missed);
+   *     await render();
+   *   }
    *   ```;
    *
    * @param delay - The time in milliseconds between iterations
-   * @yields Void on each interval tick
+   * @param options - The overflow policy, limits and an abort signal to end the
+   *   iteration with
+   * @yields An {@link IntervalTick} on each interval tick when
+   *   `options.overflow` is given, void otherwise. See {@link IteratedValue}.
+   * @throws The abort reason once `options.signal` aborts, unless
+   *   `options.onAbort` is `"return"`
    */
-  async *iterate(delay: number): AsyncGenerator<void, void, unknown> {
+  iterate<TOptions extends IterateOptions = { overflow?: undefined }>(
+    delay: number,
+    options?: TOptions,
+  ): AsyncGenerator<IteratedValue<TOptions>, void, unknown>;
+  iterate(
+    delay: number,
+    options?: IterateOptions,
+  ): AsyncGenerator<IntervalTick | void, void, unknown> {
+    this.#assertNotDisposed();
+    bufferCapacity(options?.overflow ?? "burst");
+    resolveLimits(options, this.#now());
+    return asyncDisposable(
+      this.#iterate(
+        (callback) =>
+          this.run(delay, callback, {
+            signal: options?.signal,
+            times: options?.times,
+            until: options?.until,
+            maxDuration: options?.maxDuration,
+            onComplete: options?.onComplete,
+          }),
+        options,
+      ),
+    );
+  }
+
+  /**
+   * Creates an async iterable that yields on each occurrence of a cron
+   * schedule. See {@link IntervalPool.cron}.
+   *
+   * @example
+   *   ```typescript
+   *   for await (const _ of pool.iterateCron('0 * * * *')) {
+   *     console.log('Top of the hour');
+   *   }
+   *   ```;
+   *
+   * @param expression - A 5-field or 6-field cron expression
+   * @param options - The time zone of the schedule, the overflow policy, limits
+   *   and an abort signal to end the iteration with
+   * @yields An {@link IntervalTick} on each occurrence when `options.overflow`
+   *   is given, void otherwise
+   */
+  iterateCron<
+    TOptions extends Pick<CronOptions, "timezone"> & IterateOptions = {
+      overflow?: undefined;
+    },
+  >(
+    expression: string,
+    options?: TOptions,
+  ): AsyncGenerator<IteratedValue<TOptions>, void, unknown>;
+  iterateCron(
+    expression: string,
+    options?: Pick<CronOptions, "timezone"> & IterateOptions,
+  ): AsyncGenerator<IntervalTick | void, void, unknown> {
+    // Fail eagerly, here rather than on the first `next`
+    this.#assertNotDisposed();
+    CronExpression.parse(expression);
+    bufferCapacity(options?.overflow ?? "burst");
+    resolveLimits(options, this.#now());
+    return asyncDisposable(
+      this.#iterate(
+        (callback) =>
+          this.cron(expression, callback, {
+            timezone: options?.timezone,
+            signal: options?.signal,
+            times: options?.times,
+            until: options?.until,
+            maxDuration: options?.maxDuration,
+            onComplete: options?.onComplete,
+          }),
+        options,
+      ),
+    );
+  }
+
+  /**
+   * Yields once per run of the subscription, until it ends (e.g. aborted or
+   * cleared), buffering the runs that happen while the consumer is busy.
+   */
+  async *#iterate(
+    subscribe: (callback: () => void) => Subscription,
+    options?: IterateOptions,
+  ): AsyncGenerator<IntervalTick | void, void, unknown> {
+    const capacity = bufferCapacity(options?.overflow ?? "burst");
+    /** The ticks that arrived while the consumer was busy */
+    const buffer: IntervalTick[] = [];
+    /** The tick handed to the waiting consumer, which is never dropped */
+    let ready: IntervalTick | undefined;
     let resolve: (() => void) | undefined = undefined;
-    let stopped = false;
-    let lostTicks = 0;
+    let closed = false;
+    let index = 0;
+    let scheduledAt: number | undefined;
+    /** Dropped ticks not yet counted as missed by a later tick */
+    let dropped = 0;
 
-    const callback = () => {
-      lostTicks++;
+    const wake = () => {
       if (resolve) {
         resolve();
         resolve = undefined;
       }
     };
 
-    const unsubscribe = this.run(delay, callback);
+    const subscription = subscribe(() => {
+      const firedAt = this.#now();
+      const tick: IntervalTick = {
+        index: index++,
+        scheduledAt: scheduledAt ?? firedAt,
+        firedAt,
+        missed: dropped,
+      };
+      dropped = 0;
+      scheduledAt = subscription.nextRunAt;
+
+      if (resolve) {
+        ready = tick;
+        wake();
+        return;
+      }
+
+      buffer.push(tick);
+      if (buffer.length > capacity) {
+        const oldest = buffer.shift()!;
+        const next = buffer[0];
+        if (next) next.missed += oldest.missed + 1;
+        else dropped += oldest.missed + 1;
+      }
+    });
+    scheduledAt = subscription.nextRunAt;
+    void subscription.closed.then(() => {
+      closed = true;
+      wake();
+    });
 
     try {
-      while (!stopped) {
-        if (lostTicks === 0) {
+      for (;;) {
+        if (buffer.length === 0 && !closed) {
           await new Promise<void>((res) => {
             resolve = res;
           });
         }
 
-        while (lostTicks > 0) {
-          yield;
-          lostTicks--;
-        }
+        const tick = ready ?? buffer.shift();
+        ready = undefined;
+        if (!tick) break;
+
+        // Tick objects are only yielded when an overflow policy is given
+        yield options?.overflow === undefined ? undefined : tick;
+      }
+
+      const signal = options?.signal;
+      if (signal?.aborted && options?.onAbort !== "return") {
+        throw signal.reason;
       }
     } finally {
-      stopped = true;
-      unsubscribe();
+      subscription();
+    }
+  }
+
+  /**
+   * Creates a scope of the pool: a child pool whose subscriptions share the
+   * intervals of this one, but that keeps track of them. Clearing, pausing or
+   * disposing the scope only affects the subscriptions made through it (and
+   * through its own nested scopes), and its `getStats()` and counts only report
+   * them. The events and metrics are the ones of the root pool.
+   *
+   * Useful to clean up everything a feature module or a component subtree
+   * registered, without touching the rest of the app.
+   *
+   * @example
+   *   ```typescript
+   *   const pool = new IntervalPool();
+   *   const dashboard = pool.scope();
+   *
+   *   dashboard.run(1000, refreshChart); // Shares the 1000ms interval...
+   *   pool.run(1000, updateClock); // ...with the rest of the app
+   *
+   *   // Later, stops `refreshChart` only
+   *   dashboard.dispose();
+   *   ```;
+   *
+   * @param options - An abort signal to clear the scope with
+   * @returns A pool whose subscriptions live in the intervals of this one
+   */
+  scope(options?: ScopeOptions): IntervalPool {
+    if (this.#disposed) {
+      throw new Error("Cannot create a scope of a disposed pool");
     }
+
+    const scope = new IntervalPool({
+      interval: this.#interval,
+      signal: options?.signal,
+    });
+    scope.#parent = this;
+    return scope;
+  }
+
+  /**
+   * Pauses every interval of the pool. Paused intervals release their timers
+   * but keep their subscriptions, and intervals created while the pool is
+   * paused start paused.
+   *
+   * @example
+   *   ```typescript
+   *   modal.addEventListener('open', () => pool.pause());
+   *   modal.addEventListener('close', () => pool.resume());
+   *   ```;
+   */
+  pause(): void {
+    if (this.#disposed) {
+      throw new Error("Cannot pause a disposed pool");
+    }
+
+    this.#paused = true;
+    if (this.#parent) {
+      this.#owned.forEach((owned, subscription) =>
+        this.#pauseOwned(subscription, owned),
+      );
+      return;
+    }
+    this.#buckets.forEach((bucket) => bucket.pause());
+  }
+
+  /**
+   * Resumes the intervals paused by {@link IntervalPool.pause}. Delays paused
+   * with {@link IntervalPool.pauseDelay} stay paused.
+   *
+   * @param mode - How the intervals pick up again. Defaults to `"phase"`.
+   */
+  resume(mode?: ResumeMode): void {
+    if (this.#disposed) {
+      throw new Error("Cannot resume a disposed pool");
+    }
+
+    this.#paused = false;
+    if (this.#parent) {
+      this.#owned.forEach((owned, subscription) => {
+        if (!this.#pausedDelays.has(owned.bucket.delay)) {
+          this.#resumeOwned(subscription, owned, mode);
+        }
+      });
+      return;
+    }
+    this.#buckets.forEach((bucket) => {
+      if (!this.#pausedDelays.has(bucket.delay)) bucket.resume(mode);
+    });
+  }
+
+  /**
+   * Pauses the intervals of a specific delay, including the ones created later,
+   * until {@link IntervalPool.resumeDelay} is called.
+   *
+   * @param delay - The interval duration in milliseconds
+   */
+  pauseDelay(delay: number): void {
+    if (this.#disposed) {
+      throw new Error("Cannot pause a disposed pool");
+    }
+
+    this.#pausedDelays.add(delay);
+    if (this.#parent) {
+      this.#owned.forEach((owned, subscription) => {
+        if (owned.bucket.delay === delay) this.#pauseOwned(subscription, owned);
+      });
+      return;
+    }
+    this.#buckets.forEach((bucket) => {
+      if (bucket.delay === delay) bucket.pause();
+    });
+  }
+
+  /**
+   * Resumes the intervals paused by {@link IntervalPool.pauseDelay}, unless the
+   * whole pool is paused.
+   *
+   * @param delay - The interval duration in milliseconds
+   * @param mode - How the intervals pick up again. Defaults to `"phase"`.
+   */
+  resumeDelay(delay: number, mode?: ResumeMode): void {
+    if (this.#disposed) {
+      throw new Error("Cannot resume a disposed pool");
+    }
+
+    this.#pausedDelays.delete(delay);
+    if (this.#paused) return;
+
+    if (this.#parent) {
+      this.#owned.forEach((owned, subscription) => {
+        if (owned.bucket.delay === delay) {
+          this.#resumeOwned(subscription, owned, mode);
+        }
+      });
+      return;
+    }
+    this.#buckets.forEach((bucket) => {
+      if (bucket.delay === delay) bucket.resume(mode);
+    });
+  }
+
+  /** Whether the whole pool is paused. */
+  get paused(): boolean {
+    return this.#paused;
   }
 
   /**
    * Clears all intervals managed by this pool. Useful for cleanup, especially
-   * in testing environments.
+   * in testing environments. A scope only unsubscribes its own subscriptions,
+   * see {@link IntervalPool.scope}.
    *
    * @example
    *   ```typescript
@@ -178,8 +1805,74 @@ export class IntervalPool {
    *   ```;
    */
   clear(): void {
-    this.#buckets.forEach((bucket) => bucket.dispose());
+    if (this.#parent) {
+      Array.from(this.#owned.keys()).forEach((subscription) =>
+        subscription.unsubscribe(),
+      );
+      return;
+    }
+
+    const buckets = Array.from(this.#buckets.values());
     this.#buckets.clear();
+    buckets.forEach((bucket) => {
+      bucket.dispose();
+      this.#emitBucket("bucketDispose", bucket);
+    });
+    this.#unwatchActivity();
+  }
+
+  /**
+   * Clears the pool and marks it as unusable: adding subscriptions, iterating
+   * or pausing a disposed pool throws. Disposing twice does nothing.
+   *
+   * @example
+   *   ```typescript
+   *   {
+   *     using pool = new IntervalPool();
+   *     pool.run(1000, poll);
+   *     // ...
+   *   } // Disposed here
+   *   ```;
+   */
+  dispose(): void {
+    if (this.#disposed) return;
+
+    this.clear();
+    this.#signal?.removeEventListener("abort", this.#onAbort);
+    this.#disposed = true;
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose();
+  }
+
+  /**
+   * Disposes the pool, then waits for the async callbacks that are still
+   * running.
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    const settled = Array.from(this.#ownBuckets(), (bucket) =>
+      bucket.settled(),
+    );
+    this.dispose();
+    await Promise.all(settled);
+  }
+
+  /** Whether the pool has been disposed. */
+  get disposed(): boolean {
+    return this.#disposed;
+  }
+
+  /** The buckets holding subscriptions of this pool or scope. */
+  #ownBuckets(): Set<IntervalBucket> {
+    if (!this.#parent) return new Set(this.#buckets.values());
+    return new Set(Array.from(this.#owned.values(), ({ bucket }) => bucket));
+  }
+
+  #assertNotDisposed() {
+    if (this.#disposed) {
+      throw new Error("Cannot subscribe to a disposed pool");
+    }
   }
 
   /**
@@ -196,7 +1889,7 @@ export class IntervalPool {
    * @returns The number of unique interval durations currently being managed
    */
   getActiveIntervalCount(): number {
-    return this.#buckets.size;
+    return this.#ownBuckets().size;
   }
 
   /**
@@ -215,8 +1908,17 @@ export class IntervalPool {
    *   exists
    */
   getSubscriptionCount(delay: number): number {
-    const pool = this.#buckets.get(delay);
-    return pool ? pool.subscriptionCount : 0;
+    let count = 0;
+    if (this.#parent) {
+      this.#owned.forEach(({ bucket }) => {
+        if (bucket.delay === delay) count++;
+      });
+      return count;
+    }
+    this.#buckets.forEach((bucket) => {
+      if (bucket.delay === delay) count += bucket.subscriptionCount;
+    });
+    return count;
   }
 
   /**
@@ -230,18 +1932,90 @@ export class IntervalPool {
    *   pool.run(2000, () => {});
    *   console.log(pool.getStats());
    *   // [
-   *   //   { delay: 1000, subscriptionCount: 2 },
-   *   //   { delay: 2000, subscriptionCount: 1 }
+   *   //   { delay: 1000, requestedDelays: [1000], subscriptionCount: 2 },
+   *   //   { delay: 2000, requestedDelays: [2000], subscriptionCount: 1 }
    *   // ]
    *   ```;
    *
-   * @returns An array of objects containing delay and callback count for each
-   *   pool
+   * @returns An array of objects containing the effective and requested delays
+   *   and callback count for each pool, plus the phase of aligned ones
    */
-  getStats(): Array<{ delay: number; subscriptionCount: number }> {
-    return Array.from(this.#buckets.entries()).map(([delay, bucket]) => ({
-      delay,
+  getStats(): IntervalStats[] {
+    if (this.#parent) return this.#scopeStats();
+
+    return Array.from(this.#buckets.values(), (bucket) => ({
+      delay: bucket.delay,
+      requestedDelays: bucket.requestedDelays,
       subscriptionCount: bucket.subscriptionCount,
+      phase: bucket.phase,
+      kind: bucket.kind,
     }));
   }
+
+  /** The stats of the intervals of a scope, counting its subscriptions only. */
+  #scopeStats(): IntervalStats[] {
+    const stats = new Map<IntervalBucket, IntervalStats>();
+    this.#owned.forEach(({ bucket, entry }) => {
+      let stat = stats.get(bucket);
+      if (!stat) {
+        stat = {
+          delay: bucket.delay,
+          requestedDelays: [],
+          subscriptionCount: 0,
+          phase: bucket.phase,
+          kind: bucket.kind,
+        };
+        stats.set(bucket, stat);
+      }
+
+      const { requestedDelay = bucket.delay } = entry;
+      stat.subscriptionCount++;
+      if (!stat.requestedDelays.includes(requestedDelay)) {
+        stat.requestedDelays.push(requestedDelay);
+        stat.requestedDelays.sort((a, b) => a - b);
+      }
+    });
+    return Array.from(stats.values());
+  }
+
+  /**
+   * The metrics collected since the pool was created, or `undefined` unless its
+   * `metrics` option is set.
+   *
+   * @example
+   *   ```typescript
+   *   const pool = new IntervalPool({ metrics: true });
+   *
+   *   const snapshot = pool.metrics?.snapshot();
+   *   const text = pool.metrics?.toPrometheus();
+   *   ```;
+   */
+  get metrics(): MetricsCollector | undefined {
+    return this.#root().#metrics;
+  }
+
+  /**
+   * Listens to the pool events: intervals being created, started, stopped,
+   * ticking and disposed, subscriptions coming and going, and callback errors.
+   * Errors thrown by a listener are logged and don't affect the pool.
+   *
+   * @example
+   *   ```typescript
+   *   const off = pool.on('tick', ({ delay, tick, subscriptionCount }) => {
+   *   devtools.log(`${delay}ms #${tick}: ${subscriptionCount} callbacks`);
+   *   });
+   *
+   *   pool.on('error', ({ error, label }) => logger.error({ error, label }));
+   *   ```;
+   *
+   * @param type - The event to listen to
+   * @param listener - Called with the event payload
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof IntervalPoolEventMap>(
+    type: K,
+    listener: IntervalPoolEventListener<K>,
+  ): UnsubscribeFunction {
+    return this.#root().#events.on(type, listener);
+  }
 }
@@ -0,0 +1,409 @@
+import type {
+  BucketKind,
+  BucketObserver,
+  IntervalBucket,
+  IntervalSubscription,
+} from "./bucket";
+
+/** The default upper bounds of the histogram buckets, in milliseconds. */
+const DEFAULT_HISTOGRAM_BUCKETS = [
+  1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000,
+];
+
+/** Describes a callback that ran longer than the `slowThreshold`. */
+export interface SlowCallbackInfo {
+  /** The delay of the interval the subscription belongs to */
+  delay: number;
+  /** The label given to the subscription, if any */
+  label: string | undefined;
+  /** How long the run took, until it settled, in milliseconds */
+  duration: number;
+  threshold: number;
+}
+
+export interface MetricsOptions {
+  /**
+   * Callbacks whose runs take longer than this many milliseconds (until they
+   * settle, for async ones) are reported to `onSlowCallback`. Disabled by
+   * default.
+   */
+  slowThreshold?: number;
+  /** Receives the slow callbacks. Defaults to a `console.warn`. */
+  onSlowCallback?: (info: SlowCallbackInfo) => void;
+  /**
+   * The upper bounds of the drift and duration histogram buckets, in
+   * milliseconds.
+   */
+  histogramBuckets?: readonly number[];
+}
+
+export interface HistogramSnapshot {
+  /** How many observations were at most `le` milliseconds, cumulatively */
+  buckets: { le: number; count: number }[];
+  count: number;
+  /** The sum of the observations, in milliseconds */
+  sum: number;
+  /** The largest observation, in milliseconds */
+  max: number;
+}
+
+/** The metrics of the subscriptions of an interval sharing the same label. */
+export interface SubscriptionMetrics {
+  label: string | undefined;
+  runs: number;
+  errors: number;
+  /** Runs that took longer than the `slowThreshold` */
+  slowRuns: number;
+  duration: HistogramSnapshot;
+}
+
+/** The metrics of one of the pool intervals. */
+export interface IntervalMetrics {
+  delay: number;
+  /**
+   * The wall-clock phase of aligned intervals, in `[0, delay)`. Left out for
+   * the intervals of precise subscriptions, which are counted by delay only.
+   */
+  phase?: number;
+  /** Set for the frame and idle intervals */
+  kind?: BucketKind;
+  ticks: number;
+  errors: number;
+  /** How late the ticks fired, in milliseconds */
+  drift: HistogramSnapshot;
+  subscriptions: SubscriptionMetrics[];
+}
+
+export interface MetricsSnapshot {
+  intervals: IntervalMetrics[];
+}
+
+const defaultSlowCallbackHandler = ({
+  delay,
+  label,
+  duration,
+  threshold,
+}: SlowCallbackInfo) => {
+  const name = label === undefined ? "An interval callback" : `"${label}"`;
+  console.warn(
+    `${name} on the ${delay}ms interval took ${duration}ms (threshold ${threshold}ms)`,
+  );
+};
+
+class Histogram {
+  readonly #bounds: readonly number[];
+  /** The observations of each bucket, the last one being `+Inf` */
+  readonly #counts: number[];
+  #count = 0;
+  #sum = 0;
+  #max = 0;
+
+  constructor(bounds: readonly number[]) {
+    this.#bounds = bounds;
+    this.#counts = new Array<number>(bounds.length + 1).fill(0);
+  }
+
+  observe(value: number) {
+    let index = this.#bounds.findIndex((bound) => value <= bound);
+    if (index === -1) index = this.#bounds.length;
+
+    this.#counts[index]!++;
+    this.#count++;
+    this.#sum += value;
+    this.#max = Math.max(this.#max, value);
+  }
+
+  snapshot(): HistogramSnapshot {
+    let cumulative = 0;
+    return {
+      buckets: this.#bounds.map((le, index) => {
+        cumulative += this.#counts[index]!;
+        return { le, count: cumulative };
+      }),
+      count: this.#count,
+      sum: this.#sum,
+      max: this.#max,
+    };
+  }
+}
+
+interface SubscriptionRecord {
+  label: string | undefined;
+  runs: number;
+  errors: number;
+  slowRuns: number;
+  duration: Histogram;
+}
+
+interface IntervalRecord {
+  delay: number;
+  phase: number | undefined;
+  kind: BucketKind | undefined;
+  ticks: number;
+  drift: Histogram;
+  subscriptions: Map<string | undefined, SubscriptionRecord>;
+}
+
+/**
+ * Collects the timing metrics of a pool: how late each interval ticks, how long
+ * the callbacks take and how often they fail. Subscriptions are told apart by
+ * their `label`, so the ones without a label are aggregated per interval.
+ *
+ * Created by the pool when its `metrics` option is set, and reachable through
+ * {@link IntervalPool.metrics}. Intervals keep their metrics after they stop, so
+ * that the counters never go backwards.
+ *
+ * @example
+ *   ```typescript
+ *   const pool = new IntervalPool({ metrics: { slowThreshold: 200 } });
+ *
+ *   app.get('/metrics', (_req, res) => {
+ *     res.type('text/plain').send(pool.metrics!.toPrometheus());
+ *   });
+ *   ```;
+ */
+export class MetricsCollector implements BucketObserver {
+  readonly #bounds: readonly number[];
+  readonly #slowThreshold: number;
+  readonly #onSlowCallback: (info: SlowCallbackInfo) => void;
+  readonly #intervals = new Map<string, IntervalRecord>();
+
+  constructor(options?: MetricsOptions) {
+    this.#bounds = [...(options?.histogramBuckets ?? DEFAULT_HISTOGRAM_BUCKETS)]
+      .filter((bound) => Number.isFinite(bound))
+      .sort((a, b) => a - b);
+    this.#slowThreshold = options?.slowThreshold ?? Infinity;
+    this.#onSlowCallback =
+      options?.onSlowCallback ?? defaultSlowCallbackHandler;
+  }
+
+  /** Records a tick of `bucket`. Called by the intervals. */
+  tick(bucket: IntervalBucket, drift: number): void {
+    const record = this.#intervalRecord(bucket);
+    record.ticks++;
+    record.drift.observe(drift);
+  }
+
+  /** Records a run of `subscription`. Called by the intervals. */
+  run(
+    bucket: IntervalBucket,
+    subscription: IntervalSubscription,
+    duration: number,
+  ): void {
+    const record = this.#subscriptionRecord(bucket, subscription);
+    record.runs++;
+    record.duration.observe(duration);
+
+    if (duration > this.#slowThreshold) {
+      record.slowRuns++;
+      this.#onSlowCallback({
+        delay: bucket.delay,
+        label: subscription.label,
+        duration,
+        threshold: this.#slowThreshold,
+      });
+    }
+  }
+
+  /** Records a failed run of `subscription`. Called by the intervals. */
+  error(bucket: IntervalBucket, subscription: IntervalSubscription): void {
+    this.#subscriptionRecord(bucket, subscription).errors++;
+  }
+
+  /** Returns the metrics collected so far, sorted by delay. */
+  snapshot(): MetricsSnapshot {
+    const intervals = Array.from(this.#intervals.values(), (record) => {
+      const subscriptions = Array.from(
+        record.subscriptions.values(),
+        ({ duration, ...counts }): SubscriptionMetrics => ({
+          ...counts,
+          duration: duration.snapshot(),
+        }),
+      );
+      const metrics: IntervalMetrics = {
+        delay: record.delay,
+        ticks: record.ticks,
+        errors: subscriptions.reduce((sum, { errors }) => sum + errors, 0),
+        drift: record.drift.snapshot(),
+        subscriptions,
+      };
+      if (record.phase !== undefined) metrics.phase = record.phase;
+      if (record.kind !== undefined) metrics.kind = record.kind;
+      return metrics;
+    });
+
+    return {
+      intervals: intervals.sort(
+        (a, b) => a.delay - b.delay || (a.phase ?? -1) - (b.phase ?? -1),
+      ),
+    };
+  }
+
+  /** The JSON representation of the collector is its {@link snapshot}. */
+  toJSON(): MetricsSnapshot {
+    return this.snapshot();
+  }
+
+  /**
+   * Formats the metrics in the Prometheus text exposition format.
+   *
+   * @param prefix - Prepended to the metric names. Defaults to
+   *   `"interval_pool"`.
+   */
+  toPrometheus(prefix = "interval_pool"): string {
+    return formatPrometheus(this.snapshot(), prefix);
+  }
+
+  /** Drops every metric collected so far. */
+  reset(): void {
+    this.#intervals.clear();
+  }
+
+  #intervalRecord(bucket: IntervalBucket): IntervalRecord {
+    // Precise buckets each have their own phase, so they are counted by delay
+    // only, not to keep a record of every one that ever existed
+    const phase = bucket.precise ? undefined : bucket.phase;
+    const key = `${bucket.kind ?? ""}${bucket.delay}:${phase ?? ""}`;
+    let record = this.#intervals.get(key);
+
+    if (!record) {
+      record = {
+        delay: bucket.delay,
+        phase,
+        kind: bucket.kind,
+        ticks: 0,
+        drift: new Histogram(this.#bounds),
+        subscriptions: new Map(),
+      };
+      this.#intervals.set(key, record);
+    }
+
+    return record;
+  }
+
+  #subscriptionRecord(
+    bucket: IntervalBucket,
+    { label }: IntervalSubscription,
+  ): SubscriptionRecord {
+    const { subscriptions } = this.#intervalRecord(bucket);
+    let record = subscriptions.get(label);
+
+    if (!record) {
+      record = {
+        label,
+        runs: 0,
+        errors: 0,
+        slowRuns: 0,
+        duration: new Histogram(this.#bounds),
+      };
+      subscriptions.set(label, record);
+    }
+
+    return record;
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string | number>): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(String(value))}"`,
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+function formatPrometheus(snapshot: MetricsSnapshot, prefix: string): string {
+  const lines: string[] = [];
+  const family = (
+    name: string,
+    type: "counter" | "histogram",
+    help: string,
+    samples: () => void,
+  ) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`);
+    lines.push(`# TYPE ${prefix}_${name} ${type}`);
+    samples();
+  };
+  const sample = (
+    name: string,
+    labels: Record<string, string | number>,
+    value: number,
+  ) => lines.push(`${prefix}_${name}${formatLabels(labels)} ${value}`);
+  const histogram = (
+    name: string,
+    labels: Record<string, string | number>,
+    { buckets, count, sum }: HistogramSnapshot,
+  ) => {
+    for (const bucket of buckets) {
+      sample(`${name}_bucket`, { ...labels, le: bucket.le }, bucket.count);
+    }
+    sample(`${name}_bucket`, { ...labels, le: "+Inf" }, count);
+    sample(`${name}_sum`, labels, sum);
+    sample(`${name}_count`, labels, count);
+  };
+
+  const intervals = snapshot.intervals.map((interval) => ({
+    interval,
+    labels: {
+      delay: interval.delay,
+      ...(interval.phase === undefined ? {} : { phase: interval.phase }),
+      ...(interval.kind === undefined ? {} : { kind: interval.kind }),
+    },
+  }));
+  const subscriptions = intervals.flatMap(({ interval, labels }) =>
+    interval.subscriptions.map((subscription) => ({
+      subscription,
+      labels: { ...labels, label: subscription.label ?? "" },
+    })),
+  );
+
+  family("ticks_total", "counter", "Ticks fired by each interval.", () =>
+    intervals.forEach(({ interval, labels }) =>
+      sample("ticks_total", labels, interval.ticks),
+    ),
+  );
+  family(
+    "tick_drift_milliseconds",
+    "histogram",
+    "How late the ticks of each interval fired.",
+    () =>
+      intervals.forEach(({ interval, labels }) =>
+        histogram("tick_drift_milliseconds", labels, interval.drift),
+      ),
+  );
+  family("runs_total", "counter", "Callback runs.", () =>
+    subscriptions.forEach(({ subscription, labels }) =>
+      sample("runs_total", labels, subscription.runs),
+    ),
+  );
+  family("errors_total", "counter", "Failed callback runs.", () =>
+    subscriptions.forEach(({ subscription, labels }) =>
+      sample("errors_total", labels, subscription.errors),
+    ),
+  );
+  family(
+    "slow_runs_total",
+    "counter",
+    "Callback runs longer than the slow threshold.",
+    () =>
+      subscriptions.forEach(({ subscription, labels }) =>
+        sample("slow_runs_total", labels, subscription.slowRuns),
+      ),
+  );
+  family(
+    "run_duration_milliseconds",
+    "histogram",
+    "How long the callback runs took until they settled.",
+    () =>
+      subscriptions.forEach(({ subscription, labels }) =>
+        histogram("run_duration_milliseconds", labels, subscription.duration),
+      ),
+  );
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,207 @@
+import type { CustomInterval } from ".";
+import { now, setOnce } from "./bucket";
+
+export interface SingleTimerSchedulerOptions {
+  /**
+   * The interval implementation used for the single underlying timer, and as
+   * time source if it provides `now`. Defaults to the native `setInterval`,
+   * `clearInterval` and `Date.now`.
+   */
+  interval?: CustomInterval;
+}
+
+interface ScheduledTimer {
+  readonly id: number;
+  readonly handler: () => void;
+  readonly delay: number;
+  nextAt: number;
+}
+
+/** Orders timers by next execution, then by creation. */
+function precedes(a: ScheduledTimer, b: ScheduledTimer): boolean {
+  return a.nextAt < b.nextAt || (a.nextAt === b.nextAt && a.id < b.id);
+}
+
+/** A binary min-heap of timers keyed by their next execution. */
+class TimerHeap {
+  readonly #items: ScheduledTimer[] = [];
+
+  get size(): number {
+    return this.#items.length;
+  }
+
+  peek(): ScheduledTimer | undefined {
+    return this.#items[0];
+  }
+
+  push(timer: ScheduledTimer) {
+    const items = this.#items;
+    let index = items.push(timer) - 1;
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!precedes(timer, items[parent]!)) break;
+      items[index] = items[parent]!;
+      index = parent;
+    }
+    items[index] = timer;
+  }
+
+  pop(): ScheduledTimer | undefined {
+    const items = this.#items;
+    const top = items[0];
+    const last = items.pop();
+
+    if (top === last || !last) return top;
+
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      if (left >= items.length) break;
+
+      const right = left + 1;
+      const child =
+        right < items.length && precedes(items[right]!, items[left]!)
+          ? right
+          : left;
+      if (!precedes(items[child]!, last)) break;
+
+      items[index] = items[child]!;
+      index = child;
+    }
+    items[index] = last;
+
+    return top;
+  }
+
+  clear() {
+    this.#items.length = 0;
+  }
+}
+
+/**
+ * A {@link CustomInterval} that multiplexes every interval onto a single
+ * underlying timer, keeping the pending intervals in a min-heap. Useful when a
+ * pool holds many distinct delays (e.g. per-entity polling with jittered
+ * delays) that would otherwise create one native timer each.
+ *
+ * Like `setInterval`, an interval that falls behind (because the event loop was
+ * blocked) runs once and skips the ticks it missed, keeping its phase.
+ *
+ * @example
+ *   ```typescript
+ *   const pool = new IntervalPool({ interval: new SingleTimerScheduler() });
+ *
+ *   // 100 distinct delays, a single native timer
+ *   for (const entity of entities) {
+ *     pool.run(5000 + Math.random() * 1000, () => poll(entity));
+ *   }
+ *   ```;
+ */
+export class SingleTimerScheduler implements CustomInterval<number> {
+  #nextId = 1;
+  #timerId: unknown;
+  /** When the underlying timer is due, to avoid re-arming it needlessly */
+  #armedAt: number | undefined;
+
+  readonly #interval: CustomInterval;
+  readonly #heap = new TimerHeap();
+  /** The live timers; cancelled ones are dropped lazily from the heap */
+  readonly #timers = new Map<number, ScheduledTimer>();
+
+  constructor(options?: SingleTimerSchedulerOptions) {
+    this.#interval = options?.interval ?? {
+      set: setInterval,
+      clear: clearInterval,
+    };
+  }
+
+  set(handler: () => void, timeout: number): number {
+    const delay = Math.max(1, timeout);
+    const timer: ScheduledTimer = {
+      id: this.#nextId++,
+      handler,
+      delay,
+      nextAt: this.now() + delay,
+    };
+
+    this.#timers.set(timer.id, timer);
+    this.#heap.push(timer);
+    this.#arm();
+
+    return timer.id;
+  }
+
+  clear(id: number): void {
+    if (!this.#timers.delete(id)) return;
+
+    if (this.#timers.size === 0) {
+      this.#heap.clear();
+    }
+    this.#arm();
+  }
+
+  now(): number {
+    return now(this.#interval);
+  }
+
+  /** The number of intervals currently scheduled. */
+  get size(): number {
+    return this.#timers.size;
+  }
+
+  /** Drops cancelled timers from the top of the heap and returns the next one. */
+  #peek(): ScheduledTimer | undefined {
+    let top = this.#heap.peek();
+    while (top && this.#timers.get(top.id) !== top) {
+      this.#heap.pop();
+      top = this.#heap.peek();
+    }
+    return top;
+  }
+
+  #arm() {
+    const next = this.#peek();
+    if (next?.nextAt === this.#armedAt) return;
+
+    if (this.#timerId !== undefined) {
+      this.#interval.clear(this.#timerId);
+      this.#timerId = undefined;
+      this.#armedAt = undefined;
+    }
+
+    if (next) {
+      this.#armedAt = next.nextAt;
+      this.#timerId = setOnce(
+        this.#interval,
+        this.#fire,
+        Math.max(0, next.nextAt - this.now()),
+      );
+    }
+  }
+
+  #fire = () => {
+    this.#timerId = undefined;
+    this.#armedAt = undefined;
+
+    try {
+      const current = this.now();
+
+      for (
+        let timer = this.#peek();
+        timer && timer.nextAt <= current;
+        timer = this.#peek()
+      ) {
+        this.#heap.pop();
+        do {
+          timer.nextAt += timer.delay;
+        } while (timer.nextAt <= current);
+        this.#heap.push(timer);
+
+        timer.handler();
+      }
+    } finally {
+      this.#arm();
+    }
+  };
+}
@@ -0,0 +1,433 @@
+import type { CustomInterval } from ".";
+import { now, setOnce } from "./bucket";
+
+/** The subset of `BroadcastChannel` the shared interval needs. */
+export interface BroadcastChannelLike {
+  postMessage(message: unknown): void;
+  addEventListener(
+    type: "message",
+    listener: (event: { data: unknown }) => void,
+  ): void;
+  removeEventListener(
+    type: "message",
+    listener: (event: { data: unknown }) => void,
+  ): void;
+  close(): void;
+}
+
+export interface SharedIntervalOptions {
+  /**
+   * The name of the `BroadcastChannel` to coordinate through. Only the
+   * instances using the same name share their timers. Defaults to
+   * `"interval-pool"`.
+   */
+  name?: string;
+  /**
+   * The channel to coordinate through, instead of a `BroadcastChannel` named
+   * after `name`. It is not closed by {@link SharedInterval.close}.
+   */
+  channel?: BroadcastChannelLike;
+  /**
+   * The interval implementation running the real timers, heartbeats and
+   * one-shot timers, and used as time source if it provides `now`. Defaults to
+   * the native `setInterval`, `clearInterval` and `Date.now`.
+   */
+  interval?: CustomInterval;
+  /**
+   * How often the leader announces itself, in milliseconds. The other instances
+   * elect a new leader after three missed heartbeats. Defaults to `1000`.
+   */
+  heartbeat?: number;
+  /** Called when this instance becomes, or stops being, the leader. */
+  onLeaderChange?: (leader: boolean) => void;
+}
+
+type SharedMessage =
+  | { type: "hello"; from: string }
+  | { type: "heartbeat"; from: string }
+  | { type: "claim"; from: string }
+  | { type: "demand"; from: string; timeouts: number[] }
+  | { type: "tick"; from: string; timeout: number }
+  | { type: "leave"; from: string };
+
+const MESSAGE_TYPES = new Set<unknown>([
+  "hello",
+  "heartbeat",
+  "claim",
+  "demand",
+  "tick",
+  "leave",
+]);
+
+/** Filters out the foreign messages posted on the same channel. */
+function isSharedMessage(data: unknown): data is SharedMessage {
+  if (typeof data !== "object" || data === null) return false;
+  const { type, from } = data as { type?: unknown; from?: unknown };
+  return MESSAGE_TYPES.has(type) && typeof from === "string";
+}
+
+function createId(): string {
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+interface SharedTimer {
+  readonly handler: () => void;
+  readonly timeout: number;
+}
+
+/**
+ * A {@link CustomInterval} whose timers are shared with the other instances on
+ * the same `BroadcastChannel`, typically one per browser tab. The instances
+ * elect a leader, the only one running real timers: one per distinct timeout
+ * any instance needs. Its ticks are broadcast, and every instance calls its own
+ * timers of that timeout. When the leader closes, or misses three heartbeats,
+ * another instance takes over and keeps the phase of the timers.
+ *
+ * Timers of the same timeout tick together, on the phase of the first one the
+ * leader started, like the subscriptions joining an existing pool interval. Use
+ * `align` on the pools for the phases to be independent of the leader. One-shot
+ * timers always run locally.
+ *
+ * Until a leader is known (at most one heartbeat after the first instance is
+ * created), nothing ticks. Two instances may briefly both lead, and tick twice,
+ * before the newest one steps down.
+ *
+ * @example
+ *   ```typescript
+ *   const shared = new SharedInterval({ name: 'my-app' });
+ *   const pool = new IntervalPool({ interval: shared, align: true });
+ *   addEventListener('pagehide', () => shared.close());
+ *
+ *   // Ten tabs, a single 30s timer
+ *   pool.run(30_000, refreshNotifications);
+ *   ```;
+ */
+export class SharedInterval implements CustomInterval<number> {
+  #nextId = 1;
+  #leader = false;
+  #closed = false;
+  /** The leader this instance last heard from, when following */
+  #leaderId: string | undefined;
+  #heartbeatId: unknown;
+  #electionId: unknown;
+
+  readonly #id = createId();
+  readonly #channel: BroadcastChannelLike;
+  /** Whether the channel was created here, and must be closed here */
+  readonly #ownsChannel: boolean;
+  readonly #interval: CustomInterval;
+  readonly #heartbeat: number;
+  readonly #onLeaderChange: ((leader: boolean) => void) | undefined;
+  readonly #timers = new Map<number, SharedTimer>();
+  readonly #onceTimers = new Map<number, unknown>();
+  /** The real timers of the leader, by timeout */
+  readonly #running = new Map<number, unknown>();
+  /** The timeouts the other instances need, when leading */
+  readonly #demands = new Map<string, { timeouts: number[]; at: number }>();
+  /** When each timeout last ticked, for a new leader to keep the phase */
+  readonly #lastTickAt = new Map<number, number>();
+
+  constructor(options?: SharedIntervalOptions) {
+    this.#interval = options?.interval ?? {
+      set: setInterval,
+      clear: clearInterval,
+    };
+    this.#heartbeat = options?.heartbeat ?? 1000;
+    this.#onLeaderChange = options?.onLeaderChange;
+
+    if (options?.channel) {
+      this.#channel = options.channel;
+      this.#ownsChannel = false;
+    } else {
+      if (typeof BroadcastChannel === "undefined") {
+        throw new Error("SharedInterval requires BroadcastChannel support");
+      }
+      this.#channel = new BroadcastChannel(options?.name ?? "interval-pool");
+      this.#ownsChannel = true;
+    }
+
+    this.#channel.addEventListener("message", this.#handleMessage);
+    this.#post({ type: "hello", from: this.#id });
+    // A leader answers the hello right away, so don't wait for a full timeout
+    this.#scheduleElection(this.#heartbeat);
+  }
+
+  /** Whether this instance runs the real timers. */
+  get leader(): boolean {
+    return this.#leader;
+  }
+
+  get closed(): boolean {
+    return this.#closed;
+  }
+
+  set(handler: () => void, timeout: number): number {
+    this.#assertOpen();
+    const id = this.#nextId++;
+    this.#timers.set(id, { handler, timeout: Math.max(1, timeout) });
+    this.#timeoutsChanged();
+    return id;
+  }
+
+  once(handler: () => void, timeout: number): number {
+    this.#assertOpen();
+    const id = this.#nextId++;
+    this.#onceTimers.set(
+      id,
+      setOnce(
+        this.#interval,
+        () => {
+          this.#onceTimers.delete(id);
+          handler();
+        },
+        timeout,
+      ),
+    );
+    return id;
+  }
+
+  clear(id: number): void {
+    if (this.#timers.delete(id)) {
+      this.#timeoutsChanged();
+      return;
+    }
+
+    const onceId = this.#onceTimers.get(id);
+    if (onceId !== undefined) {
+      this.#onceTimers.delete(id);
+      this.#interval.clear(onceId);
+    }
+  }
+
+  now(): number {
+    return now(this.#interval);
+  }
+
+  /**
+   * Leaves the group, handing the leadership over to another instance right
+   * away, and stops every timer. Call it when the page is hidden for good, e.g.
+   * on `pagehide`.
+   */
+  close(): void {
+    if (this.#closed) return;
+
+    try {
+      this.#post({ type: "leave", from: this.#id });
+    } catch {
+      // The channel was closed by its owner, there is nobody to tell
+    }
+    this.#closed = true;
+    this.#stepDown();
+    this.#cancelElection();
+
+    this.#channel.removeEventListener("message", this.#handleMessage);
+    if (this.#ownsChannel) this.#channel.close();
+
+    this.#timers.clear();
+    this.#onceTimers.forEach((onceId) => this.#interval.clear(onceId));
+    this.#onceTimers.clear();
+  }
+
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  #assertOpen() {
+    if (this.#closed) {
+      throw new Error("Cannot set a timer on a closed SharedInterval");
+    }
+  }
+
+  #post(message: SharedMessage) {
+    if (!this.#closed) this.#channel.postMessage(message);
+  }
+
+  #localTimeouts(): Set<number> {
+    return new Set(Array.from(this.#timers.values(), ({ timeout }) => timeout));
+  }
+
+  #timeoutsChanged() {
+    if (this.#leader) {
+      this.#updateRunning();
+    } else {
+      this.#postDemand();
+    }
+  }
+
+  #postDemand() {
+    this.#post({
+      type: "demand",
+      from: this.#id,
+      timeouts: Array.from(this.#localTimeouts()),
+    });
+  }
+
+  /** Starts and stops the real timers to match the timeouts anyone needs. */
+  #updateRunning() {
+    const needed = this.#localTimeouts();
+    this.#demands.forEach(({ timeouts }) =>
+      timeouts.forEach((timeout) => needed.add(timeout)),
+    );
+
+    this.#running.forEach((timerId, timeout) => {
+      if (needed.has(timeout)) return;
+      this.#interval.clear(timerId);
+      this.#running.delete(timeout);
+    });
+
+    needed.forEach((timeout) => {
+      if (!this.#running.has(timeout)) this.#startTimer(timeout);
+    });
+  }
+
+  #startTimer(timeout: number) {
+    const tick = () => this.#tick(timeout);
+    const lastTickAt = this.#lastTickAt.get(timeout);
+    const wait =
+      lastTickAt === undefined
+        ? timeout
+        : timeout -
+          ((((this.now() - lastTickAt) % timeout) + timeout) % timeout);
+
+    if (wait === timeout) {
+      this.#running.set(timeout, this.#interval.set(tick, timeout));
+      return;
+    }
+
+    // Keep the phase of the previous leader
+    this.#running.set(
+      timeout,
+      setOnce(
+        this.#interval,
+        () => {
+          this.#running.set(timeout, this.#interval.set(tick, timeout));
+          tick();
+        },
+        wait,
+      ),
+    );
+  }
+
+  #tick(timeout: number) {
+    this.#lastTickAt.set(timeout, this.now());
+    this.#post({ type: "tick", from: this.#id, timeout });
+    this.#runTimers(timeout);
+  }
+
+  #runTimers(timeout: number) {
+    for (const [id, timer] of Array.from(this.#timers)) {
+      // Skip the timers cleared by a previous handler
+      if (timer.timeout === timeout && this.#timers.get(id) === timer) {
+        timer.handler();
+      }
+    }
+  }
+
+  #lead() {
+    if (this.#leader || this.#closed) return;
+
+    this.#leader = true;
+    this.#leaderId = undefined;
+    this.#cancelElection();
+    this.#post({ type: "claim", from: this.#id });
+    this.#heartbeatId = this.#interval.set(this.#beat, this.#heartbeat);
+    this.#updateRunning();
+    this.#onLeaderChange?.(true);
+  }
+
+  #follow(leaderId: string) {
+    this.#leaderId = leaderId;
+    this.#stepDown();
+    this.#scheduleElection(this.#heartbeat * 3);
+  }
+
+  #stepDown() {
+    if (!this.#leader) return;
+
+    this.#leader = false;
+    this.#interval.clear(this.#heartbeatId);
+    this.#heartbeatId = undefined;
+    this.#running.forEach((timerId) => this.#interval.clear(timerId));
+    this.#running.clear();
+    this.#demands.clear();
+    this.#onLeaderChange?.(false);
+    this.#postDemand();
+  }
+
+  #beat = () => {
+    // Forget the instances that went away without saying so
+    const staleBefore = this.now() - this.#heartbeat * 3;
+    this.#demands.forEach(({ at }, from) => {
+      if (at < staleBefore) this.#demands.delete(from);
+    });
+    this.#updateRunning();
+    this.#post({ type: "heartbeat", from: this.#id });
+  };
+
+  #scheduleElection(timeout: number) {
+    this.#cancelElection();
+    this.#electionId = setOnce(
+      this.#interval,
+      () => {
+        this.#electionId = undefined;
+        this.#lead();
+      },
+      timeout,
+    );
+  }
+
+  #cancelElection() {
+    if (this.#electionId === undefined) return;
+    this.#interval.clear(this.#electionId);
+    this.#electionId = undefined;
+  }
+
+  #handleMessage = ({ data }: { data: unknown }) => {
+    if (this.#closed || !isSharedMessage(data) || data.from === this.#id) {
+      return;
+    }
+
+    switch (data.type) {
+      case "hello":
+        if (this.#leader) this.#post({ type: "heartbeat", from: this.#id });
+        break;
+      case "heartbeat":
+      case "claim":
+        if (!this.#leader) {
+          this.#follow(data.from);
+          // Refresh the demand, and tell new leaders about it
+          if (this.#timers.size > 0) this.#postDemand();
+        } else if (data.from < this.#id) {
+          // Two leaders: the smallest id wins
+          this.#follow(data.from);
+        } else {
+          this.#post({ type: "heartbeat", from: this.#id });
+        }
+        break;
+      case "demand":
+        if (this.#leader) {
+          this.#demands.set(data.from, {
+            timeouts: data.timeouts,
+            at: this.now(),
+          });
+          this.#updateRunning();
+        }
+        break;
+      case "tick":
+        this.#lastTickAt.set(data.timeout, this.now());
+        if (!this.#leader) {
+          this.#follow(data.from);
+          this.#runTimers(data.timeout);
+        }
+        break;
+      case "leave":
+        if (this.#leader) {
+          this.#demands.delete(data.from);
+          this.#updateRunning();
+        } else if (data.from === this.#leaderId) {
+          this.#lead();
+        }
+        break;
+    }
+  };
+}
@@ -0,0 +1,85 @@
+import type { ResumeMode, UnsubscribeFunction } from "./bucket";
+
+/**
+ * A handle to a subscription created by `run()` or `once()`. It is still a
+ * function: calling it unsubscribes, like the plain {@link UnsubscribeFunction}
+ * it extends. It is also disposable, so a `using` declaration unsubscribes at
+ * the end of its scope.
+ */
+export interface Subscription extends UnsubscribeFunction, Disposable {
+  /** Stops the execution of the callback. Same as calling the handle. */
+  unsubscribe(): void;
+  /**
+   * Skips the callback on every tick until {@link Subscription.resume} is
+   * called. The underlying timer is released while no subscription of its
+   * interval needs it.
+   */
+  pause(): void;
+  /** Picks up a paused subscription again. Defaults to the `"phase"` mode. */
+  resume(mode?: ResumeMode): void;
+  /** Whether the subscription is paused. */
+  readonly paused: boolean;
+  /**
+   * Whether the subscription is still registered. It turns `false` once it
+   * ends, through `unsubscribe()`, a `once` run, `maxConsecutiveErrors` or the
+   * pool `clear()`.
+   */
+  readonly active: boolean;
+  /** How many times the callback has been called. */
+  readonly runCount: number;
+  /** When the callback was last called, in milliseconds since the epoch. */
+  readonly lastRunAt: number | undefined;
+  /**
+   * When the interval ticks next for this subscription, in milliseconds since
+   * the epoch, or `undefined` while it is not scheduled (paused or ended).
+   * Jitter and spread delays are not included.
+   */
+  readonly nextRunAt: number | undefined;
+  /** Settles once the subscription ends. */
+  readonly closed: Promise<void>;
+}
+
+/** The operations and state a {@link Subscription} handle delegates to. */
+export interface SubscriptionController {
+  unsubscribe(): void;
+  pause(): void;
+  resume(mode: ResumeMode | undefined): void;
+  readonly paused: boolean;
+  readonly active: boolean;
+  readonly runCount: number;
+  readonly lastRunAt: number | undefined;
+  readonly nextRunAt: number | undefined;
+  readonly closed: Promise<void>;
+}
+
+export function createSubscription(
+  controller: SubscriptionController,
+): Subscription {
+  const unsubscribe = () => controller.unsubscribe();
+  const getter = <K extends keyof SubscriptionController>(key: K) => ({
+    get: () => controller[key],
+    enumerable: true,
+  });
+
+  return Object.defineProperties(unsubscribe, {
+    unsubscribe: { value: unsubscribe },
+    [Symbol.dispose]: { value: unsubscribe },
+    pause: { value: () => controller.pause() },
+    resume: { value: (mode?: ResumeMode) => controller.resume(mode) },
+    paused: getter("paused"),
+    active: getter("active"),
+    runCount: getter("runCount"),
+    lastRunAt: getter("lastRunAt"),
+    nextRunAt: getter("nextRunAt"),
+    closed: getter("closed"),
+  }) as Subscription;
+}
+
+/** Creates the `closed` promise of a subscription, along with its resolver. */
+export function createClosed(): [closed: Promise<void>, close: () => void] {
+  let close!: () => void;
+  const closed = new Promise<void>((resolve) => {
+    close = resolve;
+  });
+  return [closed, close];
+}
@@ -0,0 +1,219 @@
+import type { CustomInterval } from ".";
+
+/** The side of a worker the {@link WorkerInterval} talks to. */
+export interface WorkerLike {
+  postMessage(message: unknown): void;
+  terminate(): unknown;
+}
+
+/**
+ * Starts a worker running `source`, a classic script, and passes the data of
+ * its messages to `onMessage`.
+ */
+export type WorkerFactory = (
+  source: string,
+  onMessage: (data: unknown) => void,
+) => WorkerLike;
+
+export interface WorkerIntervalOptions {
+  /**
+   * Starts the worker. Defaults to a Web Worker from a blob URL in browsers,
+   * and to a `worker_threads` worker in Node.
+   */
+  createWorker?: WorkerFactory;
+}
+
+/** How long the ticks of a {@link WorkerInterval} waited for the main thread. */
+export interface WorkerLatencyStats {
+  /** The ticks received from the worker */
+  ticks: number;
+  /**
+   * The ticks dropped because they were sent before the previous tick of the
+   * same timer ran, i.e. while the main thread was busy
+   */
+  skipped: number;
+  /** In milliseconds, like the following ones */
+  mean: number;
+  max: number;
+  last: number;
+}
+
+type WorkerCommand =
+  | { type: "set"; id: number; timeout: number }
+  | { type: "clear"; id: number };
+
+interface WorkerTick {
+  id: number;
+  /** When the worker sent the tick, in milliseconds since the epoch */
+  time: number;
+}
+
+/** The worker script, valid both as a Web Worker and as a Node worker. */
+const WORKER_SOURCE = `
+const timers = new Map();
+const port =
+  typeof require === "function" ? require("node:worker_threads").parentPort : self;
+const receive = (command) => {
+  if (command.type === "set") {
+    timers.set(
+      command.id,
+      setInterval(() => port.postMessage({ id: command.id, time: Date.now() }), command.timeout),
+    );
+  } else {
+    clearInterval(timers.get(command.id));
+    timers.delete(command.id);
+  }
+};
+if (typeof port.on === "function") port.on("message", receive);
+else port.onmessage = (event) => receive(event.data);
+`;
+
+const defaultCreateWorker: WorkerFactory = (source, onMessage) => {
+  if (typeof Worker !== "undefined") {
+    const url = URL.createObjectURL(
+      new Blob([source], { type: "text/javascript" }),
+    );
+    const worker = new Worker(url);
+    worker.addEventListener("message", (event) => onMessage(event.data));
+    return {
+      postMessage: (message) => worker.postMessage(message),
+      terminate: () => {
+        worker.terminate();
+        URL.revokeObjectURL(url);
+      },
+    };
+  }
+
+  const threads = globalThis.process?.getBuiltinModule?.("node:worker_threads");
+  if (threads) {
+    const worker = new threads.Worker(source, { eval: true });
+    worker.on("message", onMessage);
+    return worker;
+  }
+
+  throw new Error(
+    "WorkerInterval requires Web Worker or worker_threads support",
+  );
+};
+
+interface WorkerTimer {
+  readonly handler: () => void;
+  /** When the latest tick ran, in milliseconds since the epoch */
+  ranAt?: number;
+}
+
+/**
+ * A {@link CustomInterval} running the real timers in a dedicated worker, which
+ * posts the ticks back. The timers keep their pace when the main thread is
+ * blocked by long tasks, and escape the throttling of background tabs (ticks
+ * still need the main thread to run the callbacks).
+ *
+ * The worker starts with the first timer and is terminated once the last one is
+ * cleared. Like `setInterval`, a timer whose ticks queue up behind a long task
+ * runs once and skips the ticks it missed. {@link latency} tells how long the
+ * ticks waited for the main thread, to judge whether the worker helps.
+ *
+ * @example
+ *   ```typescript
+ *   const timers = new WorkerInterval();
+ *   const pool = new IntervalPool({ interval: timers });
+ *
+ *   pool.run(1000, updateClock);
+ *
+ *   // Later
+ *   console.log(timers.latency); // { ticks: 60, skipped: 0, mean: 2.1, ... }
+ *   ```;
+ */
+export class WorkerInterval implements CustomInterval<number> {
+  #nextId = 1;
+  #worker: WorkerLike | undefined;
+  #teardownScheduled = false;
+  #latency: WorkerLatencyStats = {
+    ticks: 0,
+    skipped: 0,
+    mean: 0,
+    max: 0,
+    last: 0,
+  };
+
+  readonly #createWorker: WorkerFactory;
+  readonly #timers = new Map<number, WorkerTimer>();
+
+  constructor(options?: WorkerIntervalOptions) {
+    this.#createWorker = options?.createWorker ?? defaultCreateWorker;
+  }
+
+  set(handler: () => void, timeout: number): number {
+    const id = this.#nextId++;
+    const delay = Math.max(1, timeout);
+    this.#timers.set(id, { handler });
+    this.#post({ type: "set", id, timeout: delay });
+    return id;
+  }
+
+  clear(id: number): void {
+    if (!this.#timers.delete(id)) return;
+
+    this.#post({ type: "clear", id });
+    if (this.#timers.size === 0) this.#scheduleTeardown();
+  }
+
+  now(): number {
+    return Date.now();
+  }
+
+  /** Whether the worker is running. */
+  get running(): boolean {
+    return this.#worker !== undefined;
+  }
+
+  /** How long the ticks waited for the main thread so far. */
+  get latency(): WorkerLatencyStats {
+    return { ...this.#latency };
+  }
+
+  #post(command: WorkerCommand) {
+    this.#worker ??= this.#createWorker(WORKER_SOURCE, this.#handleTick);
+    this.#worker.postMessage(command);
+  }
+
+  /**
+   * Terminates the worker after the current task, so that a timer re-armed
+   * right after clearing the last one (like the one-shot timers) reuses it.
+   */
+  #scheduleTeardown() {
+    if (this.#teardownScheduled) return;
+    this.#teardownScheduled = true;
+
+    queueMicrotask(() => {
+      this.#teardownScheduled = false;
+      if (this.#timers.size > 0 || !this.#worker) return;
+
+      void this.#worker.terminate();
+      this.#worker = undefined;
+    });
+  }
+
+  #handleTick = (data: unknown) => {
+    const { id, time } = data as WorkerTick;
+    const timer = this.#timers.get(id);
+    if (!timer) return;
+
+    const receivedAt = Date.now();
+    const latency = Math.max(0, receivedAt - time);
+    const stats = this.#latency;
+    stats.ticks++;
+    stats.mean += (latency - stats.mean) / stats.ticks;
+    stats.max = Math.max(stats.max, latency);
+    stats.last = latency;
+
+    // The tick waited behind the previous one, like the ones after it
+    if (timer.ranAt !== undefined && time < timer.ranAt) {
+      stats.skipped++;
+      return;
+    }
+
+    timer.ranAt = receivedAt;
+    timer.handler();
+  };
+}
@@ -0,0 +1,226 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  batterySignal,
+  IntervalPool,
+  ManualActivitySignal,
+  onlineSignal,
+  VirtualClock,
+  visibilitySignal,
+  type BatteryStatus,
+} from "../src";
+
+function setup(options?: ConstructorParameters<typeof IntervalPool>[0]) {
+  const clock = new VirtualClock();
+  const signal = new ManualActivitySignal();
+  const pool = new IntervalPool({
+    interval: clock,
+    activity: signal,
+    ...options,
+  });
+  return { clock, signal, pool };
+}
+
+class FakeDocument extends EventTarget {
+  visibilityState: DocumentVisibilityState = "visible";
+
+  setVisibility(state: DocumentVisibilityState) {
+    this.visibilityState = state;
+    this.dispatchEvent(new Event("visibilitychange"));
+  }
+}
+
+class FakeBattery extends EventTarget implements BatteryStatus {
+  charging = false;
+  level = 1;
+
+  setLevel(level: number) {
+    this.level = level;
+    this.dispatchEvent(new Event("levelchange"));
+  }
+}
+
+describe("activity signals", () => {
+  it("should pause subscriptions while inactive by default", () => {
+    const { clock, signal, pool } = setup();
+    const callback = vi.fn();
+    pool.run(100, callback);
+
+    clock.advanceBy(100);
+    signal.set(false);
+    clock.advanceBy(300);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(clock.pendingTimers).toHaveLength(0);
+
+    signal.set(true);
+    clock.advanceBy(100);
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it("should slow subscriptions down by the given factor", () => {
+    const { clock, signal, pool } = setup({ inactive: { slowdown: 3 } });
+    const callback = vi.fn();
+    pool.run(100, callback);
+
+    signal.set(false);
+    clock.advanceBy(600);
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    signal.set(true);
+    clock.advanceBy(200);
+    expect(callback).toHaveBeenCalledTimes(4);
+  });
+
+  it("should keep running subscriptions with the run policy", () => {
+    const { clock, signal, pool } = setup();
+    const paused = vi.fn();
+    const running = vi.fn();
+    pool.run(100, paused);
+    pool.run(100, running, { inactive: "run" });
+
+    signal.set(false);
+    clock.advanceBy(300);
+
+    expect(paused).not.toHaveBeenCalled();
+    expect(running).toHaveBeenCalledTimes(3);
+  });
+
+  it("should be inactive while any signal is", () => {
+    const clock = new VirtualClock();
+    const visible = new ManualActivitySignal();
+    const online = new ManualActivitySignal(false);
+    const pool = new IntervalPool({
+      interval: clock,
+      activity: [visible, online],
+    });
+    const callback = vi.fn();
+    pool.run(100, callback);
+
+    clock.advanceBy(100);
+    expect(callback).not.toHaveBeenCalled();
+
+    online.set(true);
+    clock.advanceBy(100);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only listen to the signals while there are intervals", () => {
+    const { signal, pool } = setup();
+    const subscribe = vi.spyOn(signal, "subscribe");
+
+    const unsubscribe = pool.run(100, () => {});
+    pool.run(200, () => {});
+    expect(subscribe).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    pool.clear();
+    pool.run(100, () => {});
+    expect(subscribe).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reject invalid slowdown factors", () => {
+    const { pool } = setup();
+
+    expect(() =>
+      pool.run(100, () => {}, { inactive: { slowdown: 0 } }),
+    ).toThrow("Invalid slowdown factor 0");
+    expect(() => new IntervalPool({ inactive: { slowdown: 1.5 } })).toThrow(
+      "Invalid slowdown factor 1.5",
+    );
+  });
+
+  describe("visibilitySignal", () => {
+    it("should follow the document visibility", () => {
+      const document = new FakeDocument();
+      const signal = visibilitySignal(document);
+      const listener = vi.fn();
+
+      const unsubscribe = signal.subscribe(listener);
+      document.setVisibility("hidden");
+      expect(signal.active).toBe(false);
+      expect(listener).toHaveBeenCalledWith(false);
+
+      unsubscribe();
+      document.setVisibility("visible");
+      expect(signal.active).toBe(true);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should be active without a document", () => {
+      expect(visibilitySignal(undefined).active).toBe(true);
+    });
+  });
+
+  describe("onlineSignal", () => {
+    it("should follow the network status", () => {
+      const navigator = { onLine: true };
+      const target = new EventTarget();
+      const signal = onlineSignal(navigator, target);
+      const listener = vi.fn();
+      signal.subscribe(listener);
+
+      navigator.onLine = false;
+      target.dispatchEvent(new Event("offline"));
+      expect(listener).toHaveBeenLastCalledWith(false);
+
+      navigator.onLine = true;
+      target.dispatchEvent(new Event("online"));
+      expect(listener).toHaveBeenLastCalledWith(true);
+    });
+  });
+
+  describe("batterySignal", () => {
+    it("should turn inactive on low battery while not charging", async () => {
+      const battery = new FakeBattery();
+      const signal = batterySignal({ battery: Promise.resolve(battery) });
+      expect(signal.active).toBe(true);
+
+      await Promise.resolve();
+      battery.setLevel(0.1);
+      expect(signal.active).toBe(false);
+
+      battery.charging = true;
+      battery.dispatchEvent(new Event("chargingchange"));
+      expect(signal.active).toBe(true);
+    });
+
+    it("should notify the listeners once the status is known", async () => {
+      const battery = new FakeBattery();
+      battery.level = 0.1;
+      const signal = batterySignal({ battery: Promise.resolve(battery) });
+      const listener = vi.fn();
+
+      signal.subscribe(listener);
+      await Promise.resolve();
+
+      expect(listener).toHaveBeenCalledExactlyOnceWith(false);
+    });
+
+    it("should stay active when the status can't be read", async () => {
+      const signal = batterySignal({
+        battery: Promise.reject(new Error("Forbidden by permissions policy")),
+      });
+      const listener = vi.fn();
+      signal.subscribe(listener);
+
+      await new Promise((resolve) => setTimeout(resolve));
+
+      expect(signal.active).toBe(true);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should only listen to the battery while subscribed", async () => {
+      const battery = new FakeBattery();
+      const addEventListener = vi.spyOn(battery, "addEventListener");
+      const removeEventListener = vi.spyOn(battery, "removeEventListener");
+      const signal = batterySignal({ battery });
+      await Promise.resolve();
+      expect(addEventListener).not.toHaveBeenCalled();
+
+      const unsubscribe = signal.subscribe(vi.fn());
+      expect(addEventListener).toHaveBeenCalledTimes(2);
+
+      unsubscribe();
+      expect(removeEventListener).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -152,6 +152,234 @@ describe("IntervalBucket", () => {
     expect(consoleErrorSpy).toHaveBeenCalled();
   });
 
+  it("should route async rejections to the error handler", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const error = new Error("Async error");
+
+    bucket.add({ callback: () => Promise.reject(error) });
+
+    await vi.advanceTimersByTimeAsync(DELAY);
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      "Error in interval callback:",
+      error,
+    );
+  });
+
+  describe("phase", () => {
+    it("should normalize the phase to the delay", () => {
+      const aligned = new IntervalBucket(mockInterval, DELAY, onStopMock, {
+        phase: -30,
+      });
+
+      expect(aligned.phase).toBe(70);
+      expect(bucket.phase).toBeUndefined();
+    });
+
+    it("should wait for the first aligned tick", () => {
+      vi.setSystemTime(1030);
+      const callback = vi.fn();
+      bucket.dispose();
+      bucket = new IntervalBucket(mockInterval, DELAY, onStopMock, {
+        phase: 10,
+      });
+
+      bucket.add({ callback });
+
+      vi.advanceTimersByTime(79);
+      expect(callback).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(Date.now()).toBe(1110);
+
+      vi.advanceTimersByTime(DELAY);
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(vi.getTimerCount()).toBe(1);
+    });
+
+    it("should cancel the first aligned tick when stopped", () => {
+      vi.setSystemTime(1030);
+      const callback = vi.fn();
+      const subscription: IntervalSubscription = { callback };
+      bucket.dispose();
+      bucket = new IntervalBucket(mockInterval, DELAY, onStopMock, {
+        phase: 0,
+      });
+
+      bucket.add(subscription);
+      bucket.remove(subscription);
+
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe("error handling", () => {
+    it("should pass the error context to the bucket error handler", () => {
+      const onError = vi.fn();
+      const error = new Error("Test error");
+      bucket.dispose();
+      bucket = new IntervalBucket(mockInterval, DELAY, onStopMock, { onError });
+
+      bucket.add({
+        callback: () => {
+          throw error;
+        },
+        label: "failing",
+      });
+
+      vi.advanceTimersByTime(DELAY * 2);
+
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenNthCalledWith(2, error, {
+        delay: DELAY,
+        label: "failing",
+        tick: 2,
+      });
+    });
+
+    it("should prefer the subscription error handler", async () => {
+      const bucketOnError = vi.fn();
+      const subscriptionOnError = vi.fn();
+      bucket.dispose();
+      bucket = new IntervalBucket(mockInterval, DELAY, onStopMock, {
+        onError: bucketOnError,
+      });
+
+      bucket.add({
+        callback: () => Promise.reject(new Error("Test error")),
+        onError: subscriptionOnError,
+      });
+
+      await vi.advanceTimersByTimeAsync(DELAY);
+
+      expect(subscriptionOnError).toHaveBeenCalledTimes(1);
+      expect(bucketOnError).not.toHaveBeenCalled();
+    });
+
+    it("should keep notifying when an error handler throws", () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const normalCallback = vi.fn();
+
+      bucket.add({
+        callback: () => {
+          throw new Error("Test error");
+        },
+        onError: () => {
+          throw new Error("Handler error");
+        },
+      });
+      bucket.add({ callback: normalCallback });
+
+      vi.advanceTimersByTime(DELAY);
+
+      expect(normalCallback).toHaveBeenCalledTimes(1);
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
+
+    it("should remove the subscription after too many consecutive errors", async () => {
+      let fail = true;
+      const callback = vi.fn(async () => {
+        if (fail) throw new Error("Test error");
+      });
+
+      bucket.add({ callback, onError: vi.fn(), maxConsecutiveErrors: 3 });
+
+      await vi.advanceTimersByTimeAsync(DELAY * 2);
+      fail = false;
+      // A success resets the count
+      await vi.advanceTimersByTimeAsync(DELAY);
+      fail = true;
+      await vi.advanceTimersByTimeAsync(DELAY * 2);
+      expect(bucket.subscriptionCount).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(DELAY);
+      expect(bucket.subscriptionCount).toBe(0);
+      expect(callback).toHaveBeenCalledTimes(6);
+      expect(onStopMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("overlap", () => {
+    const slowCallback = () =>
+      vi.fn(
+        () => new Promise<void>((resolve) => setTimeout(resolve, DELAY * 2.5)),
+      );
+
+    it("should start a new run on every tick by default", async () => {
+      const callback = slowCallback();
+
+      bucket.add({ callback });
+
+      await vi.advanceTimersByTimeAsync(DELAY * 3);
+
+      expect(callback).toHaveBeenCalledTimes(3);
+    });
+
+    it("should skip ticks while the previous run is pending", async () => {
+      const callback = slowCallback();
+
+      bucket.add({ callback, overlap: "skip" });
+
+      await vi.advanceTimersByTimeAsync(DELAY * 3);
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      // The first run settles at 3.5 * DELAY, so the 4th tick runs again
+      await vi.advanceTimersByTimeAsync(DELAY);
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it("should queue runs while the previous run is pending", async () => {
+      const callback = slowCallback();
+
+      bucket.add({ callback, overlap: "queue" });
+
+      await vi.advanceTimersByTimeAsync(DELAY * 3);
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      // Settles at 3.5 * DELAY and immediately starts the queued run
+      await vi.advanceTimersByTimeAsync(DELAY);
+      expect(callback).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(DELAY * 2.5);
+      expect(callback).toHaveBeenCalledTimes(3);
+    });
+
+    it("should queue a single run however many ticks it missed", async () => {
+      const callback = vi.fn(
+        () => new Promise<void>((resolve) => setTimeout(resolve, DELAY * 10.5)),
+      );
+
+      bucket.add({ callback, overlap: "queue" });
+
+      // The first run hangs through 10 ticks, then only one run follows it
+      await vi.advanceTimersByTimeAsync(DELAY * 11.5);
+      expect(callback).toHaveBeenCalledTimes(2);
+
+      // The next tick queues behind the second run again
+      await vi.advanceTimersByTimeAsync(DELAY * 10.5);
+      expect(callback).toHaveBeenCalledTimes(3);
+    });
+
+    it("should drop queued runs after the subscription is removed", async () => {
+      const callback = slowCallback();
+      const subscription: IntervalSubscription = { callback, overlap: "queue" };
+
+      bucket.add(subscription);
+      bucket.add({ callback: vi.fn() });
+
+      await vi.advanceTimersByTimeAsync(DELAY * 2);
+      bucket.remove(subscription);
+
+      await vi.advanceTimersByTimeAsync(DELAY * 5);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+  });
+
   it("should clear all subscriptions on dispose", () => {
     bucket.add({ callback: vi.fn() });
     bucket.add({ callback: vi.fn() });
@@ -198,4 +426,335 @@ describe("IntervalBucket", () => {
       "Cannot remove subscription from a disposed bucket",
     );
   });
+
+  describe("execution order", () => {
+    const record = (calls: string[], label: string, extra = {}) => ({
+      label,
+      callback: () => calls.push(label),
+      ...extra,
+    });
+
+    it("should run higher priorities first, then in insertion order", () => {
+      const calls: string[] = [];
+      bucket.add(record(calls, "a"));
+      bucket.add(record(calls, "b", { priority: 1 }));
+      bucket.add(record(calls, "c"));
+      bucket.add(record(calls, "d", { priority: -1 }));
+      bucket.add(record(calls, "e", { priority: 1 }));
+
+      vi.advanceTimersByTime(DELAY);
+      expect(calls).toEqual(["b", "e", "a", "c", "d"]);
+    });
+
+    it("should honour before and after over priorities", () => {
+      const calls: string[] = [];
+      bucket.add(record(calls, "fetch", { priority: 10, after: ["auth"] }));
+      bucket.add(record(calls, "render", { priority: 5 }));
+      bucket.add(record(calls, "auth", { before: ["render"] }));
+
+      vi.advanceTimersByTime(DELAY);
+      expect(calls).toEqual(["auth", "fetch", "render"]);
+    });
+
+    it("should reject circular dependencies without adding the subscription", () => {
+      const calls: string[] = [];
+      bucket.add(record(calls, "a", { before: ["b"] }));
+
+      expect(() => bucket.add(record(calls, "b", { before: ["a"] }))).toThrow(
+        'Circular before/after dependencies between the subscriptions "a", "b"',
+      );
+      expect(bucket.subscriptionCount).toBe(1);
+    });
+
+    it("should restore priorities once a dependency is removed", () => {
+      const calls: string[] = [];
+      const link = record(calls, "link", { after: ["low"], before: ["high"] });
+      bucket.add(record(calls, "low"));
+      bucket.add(record(calls, "high", { priority: 1 }));
+      bucket.add(link);
+
+      vi.advanceTimersByTime(DELAY);
+      expect(calls).toEqual(["low", "link", "high"]);
+
+      calls.length = 0;
+      bucket.remove(link);
+      vi.advanceTimersByTime(DELAY);
+      expect(calls).toEqual(["high", "low"]);
+    });
+
+    it("should add and remove many subscriptions quickly", () => {
+      let runs = 0;
+      const callback = () => {
+        runs++;
+      };
+      const calls: string[] = [];
+      for (let index = 0; index < 10_000; index++) {
+        bucket.add({ callback, once: true });
+        bucket.add({ callback, once: true, priority: index % 10 });
+      }
+      for (let index = 0; index < 1000; index++) {
+        bucket.add({ callback, once: true, priority: index % 10 });
+      }
+      bucket.add(record(calls, "last", { once: true, priority: -1 }));
+      bucket.add(record(calls, "first", { once: true, before: ["last"] }));
+
+      // Every subscription runs once, and removes itself within the tick
+      vi.advanceTimersByTime(DELAY);
+
+      expect(runs).toBe(21_000);
+      expect(calls).toEqual(["first", "last"]);
+      expect(bucket.subscriptionCount).toBe(0);
+    });
+
+    it("should skip removed subscriptions and defer added ones during a tick", () => {
+      const calls: string[] = [];
+      const removed = record(calls, "removed");
+      const added = record(calls, "added", { priority: 1 });
+      bucket.add({
+        callback: () => {
+          bucket.remove(removed);
+          bucket.add(added);
+        },
+        priority: 2,
+      });
+      bucket.add(removed);
+
+      vi.advanceTimersByTime(DELAY);
+      expect(calls).toEqual([]);
+
+      vi.advanceTimersByTime(DELAY);
+      expect(calls).toEqual(["added"]);
+    });
+  });
+
+  describe("pause and resume", () => {
+    it("should release the timer while paused", () => {
+      const callback = vi.fn();
+      bucket.add({ callback });
+
+      bucket.pause();
+      expect(bucket.paused).toBe(true);
+      expect(vi.getTimerCount()).toBe(0);
+
+      vi.advanceTimersByTime(DELAY * 3);
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it("should keep the phase when resumed in phase mode", () => {
+      const callback = vi.fn();
+      bucket.add({ callback });
+
+      vi.advanceTimersByTime(DELAY);
+      bucket.pause();
+      vi.advanceTimersByTime(DELAY + 30);
+      bucket.resume();
+
+      vi.advanceTimersByTime(69);
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1);
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it("should tick right away when resumed in immediate mode", () => {
+      const callback = vi.fn();
+      bucket.add({ callback });
+
+      vi.advanceTimersByTime(30);
+      bucket.pause();
+      bucket.resume("immediate");
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(DELAY);
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it("should wait a full period when resumed in restart mode", () => {
+      const callback = vi.fn();
+      bucket.add({ callback });
+
+      vi.advanceTimersByTime(30);
+      bucket.pause();
+      bucket.resume("restart");
+
+      vi.advanceTimersByTime(DELAY - 1);
+      expect(callback).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop the timer when every subscription is paused", () => {
+      const first: IntervalSubscription = { callback: vi.fn() };
+      const second: IntervalSubscription = { callback: vi.fn() };
+      bucket.add(first);
+      bucket.add(second);
+
+      bucket.pauseSubscription(first);
+      vi.advanceTimersByTime(DELAY);
+      expect(first.callback).not.toHaveBeenCalled();
+      expect(second.callback).toHaveBeenCalledTimes(1);
+
+      bucket.pauseSubscription(second);
+      expect(vi.getTimerCount()).toBe(0);
+
+      bucket.resumeSubscription(first);
+      vi.advanceTimersByTime(DELAY);
+      expect(first.callback).toHaveBeenCalledTimes(1);
+      expect(second.callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip the ticks of the current period when a subscription restarts", () => {
+      const paused: IntervalSubscription = { callback: vi.fn() };
+      bucket.add(paused);
+      bucket.add({ callback: vi.fn() });
+
+      bucket.pauseSubscription(paused);
+      vi.advanceTimersByTime(30);
+      bucket.resumeSubscription(paused, "restart");
+
+      vi.advanceTimersByTime(70);
+      expect(paused.callback).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(DELAY);
+      expect(paused.callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should run a subscription right away when resumed in immediate mode", () => {
+      const subscription: IntervalSubscription = { callback: vi.fn() };
+      bucket.add(subscription);
+
+      bucket.pauseSubscription(subscription);
+      vi.advanceTimersByTime(30);
+      bucket.resumeSubscription(subscription, "immediate");
+
+      expect(subscription.callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not run a subscription right away while the bucket is paused", () => {
+      const subscription: IntervalSubscription = { callback: vi.fn() };
+      bucket.add(subscription);
+
+      bucket.pause();
+      bucket.pauseSubscription(subscription);
+      bucket.resumeSubscription(subscription, "immediate");
+      expect(subscription.callback).not.toHaveBeenCalled();
+
+      bucket.resume();
+      vi.advanceTimersByTime(DELAY);
+      expect(subscription.callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not run a subscription right away before it is due", () => {
+      vi.setSystemTime(0);
+      let dueAt = 250;
+      const subscription: IntervalSubscription = {
+        callback: vi.fn(),
+        notBefore: 150,
+        dueAt: () => dueAt,
+        onDue: (time) => {
+          dueAt = time + 1000;
+        },
+      };
+      bucket.add(subscription);
+
+      bucket.pauseSubscription(subscription);
+      vi.advanceTimersByTime(10);
+      bucket.resumeSubscription(subscription, "immediate");
+      expect(subscription.callback).not.toHaveBeenCalled();
+
+      bucket.pauseSubscription(subscription);
+      vi.advanceTimersByTime(200);
+      bucket.resumeSubscription(subscription, "immediate");
+      expect(subscription.callback).not.toHaveBeenCalled();
+
+      bucket.pauseSubscription(subscription);
+      vi.advanceTimersByTime(50);
+      bucket.resumeSubscription(subscription, "immediate");
+      expect(subscription.callback).toHaveBeenCalledTimes(1);
+      expect(dueAt).toBe(1260);
+
+      vi.advanceTimersByTime(DELAY);
+      expect(subscription.callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip the ticks before notBefore", () => {
+      vi.setSystemTime(0);
+      const subscription: IntervalSubscription = {
+        callback: vi.fn(),
+        notBefore: 250,
+      };
+      bucket.add(subscription);
+      expect(bucket.nextRunAt(subscription)).toBe(300);
+
+      vi.advanceTimersByTime(2 * DELAY);
+      expect(subscription.callback).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(DELAY);
+      expect(subscription.callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw when pausing or resuming a disposed bucket", () => {
+      bucket.dispose();
+
+      expect(() => bucket.pause()).toThrow("Cannot pause a disposed bucket");
+      expect(() => bucket.resume()).toThrow("Cannot resume a disposed bucket");
+    });
+  });
+
+  describe("jitter and spread", () => {
+    it("should delay each run by its jitter", () => {
+      const callback = vi.fn();
+      bucket.add({ callback, jitter: () => 30 });
+
+      vi.advanceTimersByTime(DELAY + 29);
+      expect(callback).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should spread the subscriptions evenly across the period", () => {
+      vi.setSystemTime(0);
+      const calls: string[] = [];
+      for (const name of ["a", "b", "c", "d"]) {
+        bucket.add({
+          callback: () => calls.push(`${name}@${Date.now()}`),
+          spread: true,
+        });
+      }
+
+      vi.advanceTimersByTime(DELAY * 2);
+
+      expect(calls).toEqual(["a@100", "b@125", "c@150", "d@175", "a@200"]);
+      expect(vi.getTimerCount()).toBe(2);
+    });
+
+    it("should drop deferred runs of removed subscriptions", () => {
+      const subscription: IntervalSubscription = {
+        callback: vi.fn(),
+        jitter: () => 50,
+      };
+      bucket.add(subscription);
+      bucket.add({ callback: vi.fn() });
+
+      vi.advanceTimersByTime(DELAY);
+      bucket.remove(subscription);
+      vi.advanceTimersByTime(50);
+
+      expect(subscription.callback).not.toHaveBeenCalled();
+    });
+
+    it("should cancel deferred runs when stopped", () => {
+      const callback = vi.fn();
+      bucket.add({ callback, jitter: () => 50 });
+
+      vi.advanceTimersByTime(DELAY);
+      bucket.pause();
+
+      expect(vi.getTimerCount()).toBe(0);
+      vi.advanceTimersByTime(50);
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest";
+import { IntervalPool, VirtualClock } from "../src";
+
+describe("VirtualClock", () => {
+  it("should start at the given time", () => {
+    expect(new VirtualClock().now()).toBe(0);
+    expect(new VirtualClock({ start: 5000 }).now()).toBe(5000);
+  });
+
+  it("should run timers only when advanced", () => {
+    const clock = new VirtualClock();
+    const handler = vi.fn();
+
+    clock.set(handler, 100);
+    expect(handler).not.toHaveBeenCalled();
+
+    expect(clock.advanceBy(99)).toBe(0);
+    expect(handler).not.toHaveBeenCalled();
+
+    expect(clock.advanceBy(251)).toBe(3);
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(clock.now()).toBe(350);
+  });
+
+  it("should expose the current time inside handlers", () => {
+    const clock = new VirtualClock();
+    const times: number[] = [];
+
+    clock.set(() => times.push(clock.now()), 100);
+    clock.set(() => times.push(clock.now()), 150);
+    clock.advanceBy(300);
+
+    expect(times).toEqual([100, 150, 200, 300, 300]);
+  });
+
+  it("should run timers due at the same time in creation order", () => {
+    const clock = new VirtualClock();
+    const order: string[] = [];
+
+    clock.set(() => order.push("slow"), 200);
+    clock.set(() => order.push("fast"), 100);
+    clock.advanceBy(200);
+
+    expect(order).toEqual(["fast", "slow", "fast"]);
+  });
+
+  it("should stop running cleared timers", () => {
+    const clock = new VirtualClock();
+    const handler = vi.fn();
+    const id = clock.set(() => {
+      handler();
+      if (handler.mock.calls.length === 2) clock.clear(id);
+    }, 100);
+
+    clock.advanceBy(1000);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(clock.pendingTimers).toEqual([]);
+  });
+
+  it("should list pending timers by next execution", () => {
+    const clock = new VirtualClock();
+    const slow = clock.set(() => {}, 300);
+    const fast = clock.set(() => {}, 200);
+
+    clock.advanceBy(250);
+
+    expect(clock.pendingTimers).toEqual([
+      { id: slow, delay: 300, nextAt: 300 },
+      { id: fast, delay: 200, nextAt: 400 },
+    ]);
+  });
+
+  it("should advance to the next tick", () => {
+    const clock = new VirtualClock();
+    const handler = vi.fn();
+
+    expect(clock.advanceToNextTick()).toBe(0);
+    expect(clock.now()).toBe(0);
+
+    clock.set(handler, 100);
+    clock.set(handler, 100);
+
+    expect(clock.advanceToNextTick()).toBe(2);
+    expect(clock.now()).toBe(100);
+  });
+
+  it("should run all timers until none are left", () => {
+    const clock = new VirtualClock();
+    const pool = new IntervalPool({ interval: clock });
+    const callback = vi.fn();
+
+    pool.once(1000, callback);
+    pool.once(3000, callback);
+
+    expect(clock.runAll()).toBe(2);
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(clock.now()).toBe(3000);
+  });
+
+  it("should abort runAll when intervals never end", () => {
+    const clock = new VirtualClock({ loopLimit: 50 });
+    clock.set(() => {}, 10);
+
+    expect(() => clock.runAll()).toThrow("Aborting after running 50 timers");
+  });
+
+  it("should reject moving backwards", () => {
+    expect(() => new VirtualClock().advanceBy(-1)).toThrow(RangeError);
+  });
+
+  describe("with IntervalPool", () => {
+    it("should drive shared intervals", () => {
+      const clock = new VirtualClock();
+      const pool = new IntervalPool({ interval: clock });
+      const callback1 = vi.fn();
+      const callback2 = vi.fn();
+
+      pool.run(1000, callback1);
+      pool.run(1000, callback2);
+
+      expect(clock.pendingTimers).toHaveLength(1);
+
+      clock.advanceBy(3000);
+
+      expect(callback1).toHaveBeenCalledTimes(3);
+      expect(callback2).toHaveBeenCalledTimes(3);
+
+      pool.clear();
+      expect(clock.pendingTimers).toEqual([]);
+    });
+
+    it("should drive async iteration", async () => {
+      const clock = new VirtualClock();
+      const pool = new IntervalPool({ interval: clock });
+      const iterator = pool.iterate(1000);
+
+      const first = iterator.next();
+      clock.advanceBy(2000);
+
+      await expect(first).resolves.toEqual({ value: undefined, done: false });
+      await expect(iterator.next()).resolves.toEqual({
+        value: undefined,
+        done: false,
+      });
+
+      await iterator.return();
+      expect(clock.pendingTimers).toEqual([]);
+    });
+  });
+});
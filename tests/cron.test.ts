@@ -0,0 +1,389 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  CronExpression,
+  IntervalPool,
+  ManualActivitySignal,
+  VirtualClock,
+} from "../src";
+
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+const nextUtc = (expression: string, after: string, timeZone = "UTC") =>
+  new Date(CronExpression.parse(expression).next(utc(after), timeZone))
+    .toISOString()
+    .slice(0, 19);
+
+describe("CronExpression", () => {
+  describe("parse", () => {
+    it.each([
+      "* * * * *",
+      "*/5 * * * *",
+      "0 9 * * MON-FRI",
+      "30 0 9 1,15 * *",
+      "0 0 1 jan,jul *",
+      "0 12 ? * 7",
+      "@daily",
+      "@Hourly",
+    ])("should accept %s", (expression) => {
+      expect(() => CronExpression.parse(expression)).not.toThrow();
+    });
+
+    it.each([
+      ["", "expected 5 or 6 fields"],
+      ["* * * *", "expected 5 or 6 fields"],
+      ["* * * * * * *", "expected 5 or 6 fields"],
+      ["60 * * * *", "out of range"],
+      ["* 24 * * *", "out of range"],
+      ["* * 0 * *", "out of range"],
+      ["* * * 13 *", "out of range"],
+      ["* * * * 8", "out of range"],
+      ["*/0 * * * *", "Invalid step"],
+      ["*/x * * * *", "Invalid step"],
+      ["10-5 * * * *", "Invalid range"],
+      ["foo * * * *", "Invalid minute"],
+      ["1- * * * *", "Invalid minute"],
+      ["@often", "expected 5 or 6 fields"],
+    ])("should reject %j", (expression, message) => {
+      expect(() => CronExpression.parse(expression)).toThrow(message);
+    });
+  });
+
+  describe("next", () => {
+    it("should find the next matching minute", () => {
+      expect(nextUtc("*/5 * * * *", "2026-01-01T10:02:30")).toBe(
+        "2026-01-01T10:05:00",
+      );
+      expect(nextUtc("*/5 * * * *", "2026-01-01T10:05:00")).toBe(
+        "2026-01-01T10:10:00",
+      );
+      expect(nextUtc("*/5 * * * *", "2026-01-01T23:59:00")).toBe(
+        "2026-01-02T00:00:00",
+      );
+    });
+
+    it("should support a seconds field", () => {
+      expect(nextUtc("*/15 * * * * *", "2026-01-01T10:00:07")).toBe(
+        "2026-01-01T10:00:15",
+      );
+      expect(nextUtc("30 0 9 * * *", "2026-01-01T09:00:30")).toBe(
+        "2026-01-02T09:00:30",
+      );
+    });
+
+    it("should support weekdays", () => {
+      // 2026-01-02 is a Friday
+      expect(nextUtc("0 9 * * MON-FRI", "2026-01-02T09:00:00")).toBe(
+        "2026-01-05T09:00:00",
+      );
+      expect(nextUtc("0 0 * * 7", "2026-01-02T00:00:00")).toBe(
+        "2026-01-04T00:00:00",
+      );
+    });
+
+    it("should match either day field when both are restricted", () => {
+      // The 13th, or any Friday
+      expect(nextUtc("0 0 13 * FRI", "2026-01-03T00:00:00")).toBe(
+        "2026-01-09T00:00:00",
+      );
+      expect(nextUtc("0 0 13 * FRI", "2026-01-09T00:00:00")).toBe(
+        "2026-01-13T00:00:00",
+      );
+    });
+
+    it("should skip months without the requested day", () => {
+      expect(nextUtc("0 0 31 * *", "2026-01-31T00:00:00")).toBe(
+        "2026-03-31T00:00:00",
+      );
+      expect(nextUtc("@yearly", "2026-06-01T00:00:00")).toBe(
+        "2027-01-01T00:00:00",
+      );
+      expect(nextUtc("0 0 29 2 *", "2026-01-01T00:00:00")).toBe(
+        "2028-02-29T00:00:00",
+      );
+    });
+
+    it("should throw when there is no upcoming occurrence", () => {
+      expect(() =>
+        CronExpression.parse("0 0 30 2 *").next(utc("2026-01-01T00:00:00")),
+      ).toThrow("has no upcoming occurrences");
+    });
+
+    it("should evaluate the expression in the given time zone", () => {
+      // 09:00 in New York is 14:00 UTC in winter
+      expect(
+        nextUtc("0 9 * * *", "2026-01-01T00:00:00", "America/New_York"),
+      ).toBe("2026-01-01T14:00:00");
+      // ...and 13:00 UTC in summer
+      expect(
+        nextUtc("0 9 * * *", "2026-07-01T00:00:00", "America/New_York"),
+      ).toBe("2026-07-01T13:00:00");
+    });
+
+    it("should skip wall-clock times that do not exist", () => {
+      // Clocks jump from 02:00 to 03:00 on 2026-03-08 in New York
+      expect(
+        nextUtc("30 2 * * *", "2026-03-07T12:00:00", "America/New_York"),
+      ).toBe("2026-03-09T06:30:00");
+    });
+
+    it("should only match repeated wall-clock times once", () => {
+      // Clocks go back from 02:00 to 01:00 on 2026-11-01 in New York
+      const cron = CronExpression.parse("30 1 * * *");
+      const first = cron.next(utc("2026-11-01T00:00:00"), "America/New_York");
+      const second = cron.next(first, "America/New_York");
+
+      expect(new Date(first).toISOString()).toBe("2026-11-01T05:30:00.000Z");
+      expect(new Date(second).toISOString()).toBe("2026-11-02T06:30:00.000Z");
+    });
+
+    it("should reject unknown time zones", () => {
+      expect(() =>
+        CronExpression.parse("* * * * *").next(0, "Mars/Olympus_Mons"),
+      ).toThrow(RangeError);
+    });
+  });
+});
+
+describe("IntervalPool.cron", () => {
+  const start = utc("2026-01-01T10:02:30");
+
+  it("should run the callback on each occurrence", () => {
+    const clock = new VirtualClock({ start });
+    const pool = new IntervalPool({ interval: clock });
+    const times: string[] = [];
+
+    pool.cron("*/5 * * * *", () => {
+      times.push(new Date(clock.now()).toISOString().slice(11, 19));
+    });
+
+    clock.advanceBy(11 * 60 * 1000);
+
+    expect(times).toEqual(["10:05:00", "10:10:00"]);
+  });
+
+  it("should share the aligned one-second bucket between schedules", () => {
+    const clock = new VirtualClock({ start });
+    const pool = new IntervalPool({ interval: clock });
+
+    pool.cron("* * * * *", vi.fn());
+    pool.cron("0 9 * * MON-FRI", vi.fn(), { timezone: "Europe/Madrid" });
+    pool.run(1000, vi.fn(), { align: true });
+
+    expect(pool.getActiveIntervalCount()).toBe(1);
+    expect(pool.getSubscriptionCount(1000)).toBe(3);
+    expect(clock.pendingTimers).toHaveLength(1);
+  });
+
+  it("should fire on the exact second mark", () => {
+    const clock = new VirtualClock({ start: start + 400 });
+    const pool = new IntervalPool({ interval: clock });
+    const times: number[] = [];
+
+    pool.cron("*/5 * * * *", () => times.push(clock.now()));
+    clock.advanceBy(3 * 60 * 1000);
+
+    expect(times).toEqual([utc("2026-01-01T10:05:00")]);
+  });
+
+  it("should stop after unsubscribing", () => {
+    const clock = new VirtualClock({ start });
+    const pool = new IntervalPool({ interval: clock });
+    const callback = vi.fn();
+
+    const unsubscribe = pool.cron("* * * * *", callback);
+
+    clock.advanceBy(60 * 1000);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    clock.advanceBy(10 * 60 * 1000);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(pool.getActiveIntervalCount()).toBe(0);
+  });
+
+  it("should report errors like other subscriptions", () => {
+    const clock = new VirtualClock({ start });
+    const onError = vi.fn();
+    const pool = new IntervalPool({ interval: clock, onError });
+    const error = new Error("Test error");
+
+    pool.cron(
+      "* * * * *",
+      () => {
+        throw error;
+      },
+      { label: "cron" },
+    );
+    clock.advanceBy(60 * 1000);
+
+    expect(onError).toHaveBeenCalledWith(error, {
+      delay: 1000,
+      label: "cron",
+      tick: 30,
+    });
+  });
+
+  it("should count the failed occurrences only towards maxConsecutiveErrors", () => {
+    const clock = new VirtualClock({ start });
+    const pool = new IntervalPool({ interval: clock, onError: vi.fn() });
+    const callback = vi.fn(() => {
+      throw new Error("Test error");
+    });
+
+    const subscription = pool.cron("* * * * *", callback, {
+      maxConsecutiveErrors: 2,
+    });
+    clock.advanceBy(5 * 60 * 1000);
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(subscription.active).toBe(false);
+  });
+
+  it("should only count the occurrences on the subscription handle", () => {
+    const clock = new VirtualClock({ start });
+    const pool = new IntervalPool({ interval: clock });
+
+    const subscription = pool.cron("* * * * *", vi.fn());
+    clock.advanceBy(5 * 60 * 1000);
+
+    expect(subscription.runCount).toBe(5);
+    expect(subscription.lastRunAt).toBe(utc("2026-01-01T10:07:00"));
+    expect(subscription.nextRunAt).toBe(utc("2026-01-01T10:08:00"));
+  });
+
+  it("should end after the given number of occurrences", () => {
+    const clock = new VirtualClock({ start });
+    const pool = new IntervalPool({ interval: clock });
+    const onComplete = vi.fn();
+
+    pool.cron("* * * * *", vi.fn(), { times: 3, onComplete });
+    clock.advanceBy(2 * 60 * 1000);
+    expect(onComplete).not.toHaveBeenCalled();
+
+    clock.advanceBy(60 * 1000);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(pool.getActiveIntervalCount()).toBe(0);
+  });
+
+  it("should drop the occurrences skipped while a run is pending", async () => {
+    const clock = new VirtualClock({ start });
+    const pool = new IntervalPool({ interval: clock });
+    const times: string[] = [];
+    let finish = () => {};
+
+    pool.cron(
+      "* * * * *",
+      () => {
+        times.push(new Date(clock.now()).toISOString().slice(11, 19));
+        return new Promise<void>((resolve) => {
+          finish = resolve;
+        });
+      },
+      { overlap: "skip" },
+    );
+    clock.advanceBy(100 * 1000);
+    finish();
+    await new Promise((resolve) => setTimeout(resolve));
+    clock.advanceBy(60 * 1000);
+
+    expect(times).toEqual(["10:03:00", "10:05:00"]);
+  });
+
+  it("should not catch up on the occurrences missed while paused", () => {
+    const clock = new VirtualClock({ start });
+    const pool = new IntervalPool({ interval: clock });
+    const times: string[] = [];
+    const subscription = pool.cron("0 * * * *", () => {
+      times.push(new Date(clock.now()).toISOString().slice(11, 19));
+    });
+
+    pool.pause();
+    clock.advanceBy(90 * 60 * 1000);
+    pool.resume();
+    clock.advanceBy(60 * 1000);
+    expect(subscription.nextRunAt).toBe(utc("2026-01-01T12:00:00"));
+
+    subscription.pause();
+    clock.advanceBy(60 * 60 * 1000);
+    subscription.resume();
+    clock.advanceBy(60 * 60 * 1000);
+
+    expect(times).toEqual(["13:00:00"]);
+  });
+
+  it("should not catch up on the occurrences missed while inactive", () => {
+    const clock = new VirtualClock({ start });
+    const activity = new ManualActivitySignal();
+    const pool = new IntervalPool({ interval: clock, activity });
+    const times: string[] = [];
+    pool.cron("0 * * * *", () => {
+      times.push(new Date(clock.now()).toISOString().slice(11, 19));
+    });
+
+    activity.set(false);
+    clock.advanceBy(90 * 60 * 1000 + 5000);
+    activity.set(true);
+    clock.advanceBy(60 * 60 * 1000);
+
+    expect(times).toEqual(["12:00:00"]);
+  });
+
+  it("should run each occurrence once with a jitter", () => {
+    const clock = new VirtualClock({ start });
+    const pool = new IntervalPool({ interval: clock });
+    const callback = vi.fn();
+
+    const subscription = pool.cron("* * * * *", callback, { jitter: 5000 });
+    clock.advanceBy(3 * 60 * 1000 + 30 * 1000);
+
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(subscription.runCount).toBe(3);
+  });
+
+  it("should only measure the occurrences in the metrics", () => {
+    const clock = new VirtualClock({ start });
+    const pool = new IntervalPool({ interval: clock, metrics: true });
+
+    pool.cron("* * * * *", vi.fn());
+    clock.advanceBy(3 * 60 * 1000);
+
+    const [interval] = pool.metrics!.snapshot().intervals;
+    expect(interval!.subscriptions[0]!.runs).toBe(3);
+  });
+
+  it("should throw on invalid expressions", () => {
+    const pool = new IntervalPool({ interval: new VirtualClock() });
+
+    expect(() => pool.cron("not a cron", vi.fn())).toThrow(
+      "Invalid cron expression",
+    );
+    expect(() => pool.iterateCron("not a cron")).toThrow(
+      "Invalid cron expression",
+    );
+    expect(pool.getActiveIntervalCount()).toBe(0);
+  });
+
+  it("should support async iteration", async () => {
+    const clock = new VirtualClock({ start });
+    const pool = new IntervalPool({ interval: clock });
+    const iterator = pool.iterateCron("*/10 * * * *", { timezone: "UTC" });
+
+    const first = iterator.next();
+    expect(pool.getSubscriptionCount(1000)).toBe(1);
+
+    clock.advanceBy(30 * 60 * 1000);
+
+    await expect(first).resolves.toEqual({ value: undefined, done: false });
+    await expect(iterator.next()).resolves.toEqual({
+      value: undefined,
+      done: false,
+    });
+    await expect(iterator.next()).resolves.toEqual({
+      value: undefined,
+      done: false,
+    });
+
+    await iterator.return();
+    expect(pool.getActiveIntervalCount()).toBe(0);
+  });
+});
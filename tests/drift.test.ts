@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DriftCorrectingInterval,
+  IntervalPool,
+  VirtualClock,
+  type CustomInterval,
+  type StallPolicy,
+} from "../src";
+
+/** Timers that always fire `lateness` milliseconds after they are due. */
+function lateTimers(clock: VirtualClock, lateness: number): CustomInterval {
+  return {
+    set: (handler, timeout) => clock.set(handler, timeout + lateness),
+    clear: (id: number) => clock.clear(id),
+    now: () => clock.now(),
+  };
+}
+
+/** A clock whose event loop can be stalled, making the next timer late. */
+function stallableTimers(clock: VirtualClock) {
+  let stall = 0;
+  const interval: CustomInterval = {
+    set: (handler, timeout) => clock.set(handler, timeout),
+    clear: (id: number) => clock.clear(id),
+    now: () => clock.now() + stall,
+  };
+  return { interval, stall: (ms: number) => (stall += ms) };
+}
+
+function setupStall(policy: StallPolicy) {
+  const clock = new VirtualClock();
+  const { interval, stall } = stallableTimers(clock);
+  const timers = new DriftCorrectingInterval({ interval, stall: policy });
+  const times: number[] = [];
+  timers.set(() => times.push(timers.now()), 1000);
+
+  clock.advanceBy(1000);
+  stall(2500);
+  clock.advanceBy(1000);
+  clock.advanceBy(1000);
+
+  return { timers, times };
+}
+
+describe("DriftCorrectingInterval", () => {
+  it("should correct the drift of every tick", () => {
+    const clock = new VirtualClock();
+    const timers = new DriftCorrectingInterval({
+      interval: lateTimers(clock, 5),
+    });
+    const times: number[] = [];
+
+    timers.set(() => times.push(clock.now()), 1000);
+    clock.advanceBy(3010);
+
+    expect(times).toEqual([1005, 2005, 3005]);
+    expect(timers.drift).toEqual({
+      ticks: 3,
+      missed: 0,
+      mean: 5,
+      max: 5,
+      last: 5,
+    });
+  });
+
+  it("should wait again for timers firing early", () => {
+    const clock = new VirtualClock();
+    const timers = new DriftCorrectingInterval({
+      interval: lateTimers(clock, -10),
+    });
+    const callback = vi.fn();
+
+    timers.set(callback, 1000);
+    clock.advanceBy(995);
+    expect(callback).not.toHaveBeenCalled();
+
+    clock.advanceBy(5);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should coalesce the ticks missed during a stall by default", () => {
+    const { timers, times } = setupStall("coalesce");
+
+    expect(times).toEqual([1000, 4500, 5000]);
+    expect(timers.drift).toMatchObject({ ticks: 3, missed: 2, max: 2500 });
+  });
+
+  it("should skip the ticks missed during a stall", () => {
+    const { times } = setupStall("skip");
+
+    expect(times).toEqual([1000, 5000]);
+  });
+
+  it("should run the ticks missed during a stall back to back", () => {
+    const { times } = setupStall("burst");
+
+    expect(times).toEqual([1000, 4500, 4500, 4500, 5000]);
+  });
+
+  it("should stop once cleared, even from its handler", () => {
+    const clock = new VirtualClock();
+    const timers = new DriftCorrectingInterval({ interval: clock });
+    const callback = vi.fn();
+    const id = timers.set(() => {
+      callback();
+      timers.clear(id);
+    }, 1000);
+
+    clock.advanceBy(5000);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(clock.pendingTimers).toEqual([]);
+  });
+
+  it("should time the native timers on the monotonic clock", () => {
+    vi.useFakeTimers({ now: Date.parse("2026-01-01T10:00:00Z") });
+    try {
+      const timers = new DriftCorrectingInterval();
+      const times: number[] = [];
+      timers.set(() => times.push(timers.now()), 1000);
+
+      // The wall clock moves, e.g. synced after a system suspend
+      vi.setSystemTime(Date.now() + 60_000);
+      vi.advanceTimersByTime(2000);
+
+      expect(timers.now()).toBe(Date.now());
+      expect(times).toEqual([Date.now() - 1000, Date.now()]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should reject unknown stall policies", () => {
+    expect(
+      () => new DriftCorrectingInterval({ stall: "catch-up" as StallPolicy }),
+    ).toThrow('Invalid stall policy "catch-up"');
+  });
+
+  it("should drive the pool intervals", () => {
+    const clock = new VirtualClock();
+    const pool = new IntervalPool({
+      interval: new DriftCorrectingInterval({ interval: lateTimers(clock, 3) }),
+      align: true,
+    });
+    const times: number[] = [];
+
+    pool.run(1000, () => times.push(clock.now()));
+    clock.advanceBy(3500);
+
+    expect(times).toEqual([1003, 2003, 3003]);
+  });
+});
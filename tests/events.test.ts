@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from "vitest";
+import { IntervalPool, VirtualClock, type IntervalPoolEventMap } from "../src";
+
+function setup() {
+  const clock = new VirtualClock();
+  const pool = new IntervalPool({ interval: clock, onError: () => {} });
+  const events: [string, unknown][] = [];
+  const types: (keyof IntervalPoolEventMap)[] = [
+    "bucketCreate",
+    "bucketStart",
+    "bucketStop",
+    "bucketDispose",
+    "tick",
+    "subscribe",
+    "unsubscribe",
+    "error",
+  ];
+  types.forEach((type) => pool.on(type, (event) => events.push([type, event])));
+  return { clock, pool, events };
+}
+
+describe("events", () => {
+  it("should report the lifecycle of intervals and subscriptions", () => {
+    const { clock, pool, events } = setup();
+    const interval = { delay: 1000, phase: undefined, kind: undefined };
+
+    const unsubscribe = pool.run(1000, () => {}, { label: "poll" });
+    clock.advanceBy(1000);
+    unsubscribe();
+
+    expect(events).toEqual([
+      ["bucketCreate", interval],
+      ["bucketStart", interval],
+      ["subscribe", { ...interval, requestedDelay: 1000, label: "poll" }],
+      ["tick", { ...interval, tick: 1, time: 1000, subscriptionCount: 1 }],
+      ["unsubscribe", { ...interval, requestedDelay: 1000, label: "poll" }],
+      ["bucketStop", interval],
+      ["bucketDispose", interval],
+    ]);
+  });
+
+  it("should report the kind of the frame and idle intervals", () => {
+    const { clock, pool, events } = setup();
+
+    pool.frame(() => {}, { times: 1 });
+    clock.advanceBy(20);
+
+    expect(events).toContainEqual([
+      "bucketCreate",
+      expect.objectContaining({ kind: "frame" }),
+    ]);
+    expect(events).toContainEqual([
+      "tick",
+      expect.objectContaining({ kind: "frame", tick: 1 }),
+    ]);
+  });
+
+  it("should report stops and starts while paused", () => {
+    const { pool, events } = setup();
+    pool.run(1000, () => {});
+    events.length = 0;
+
+    pool.pause();
+    pool.resume();
+
+    expect(events.map(([type]) => type)).toEqual(["bucketStop", "bucketStart"]);
+  });
+
+  it("should report the subscriptions of the intervals they joined", () => {
+    const { pool, events } = setup();
+    pool.run(1000, () => {});
+    events.length = 0;
+
+    pool.run(1050, () => {}, { tolerance: 100 });
+
+    expect(events).toEqual([
+      [
+        "subscribe",
+        {
+          delay: 1000,
+          phase: undefined,
+          requestedDelay: 1050,
+          label: undefined,
+        },
+      ],
+    ]);
+  });
+
+  it("should report errors before calling the error handler", () => {
+    const { clock, pool, events } = setup();
+    const error = new Error("Unavailable");
+    const onError = vi.fn(() => {
+      expect(events.map(([type]) => type)).toContain("error");
+    });
+    pool.run(
+      1000,
+      () => {
+        throw error;
+      },
+      { label: "poll", onError },
+    );
+
+    clock.advanceBy(1000);
+
+    expect(events).toContainEqual([
+      "error",
+      { error, delay: 1000, label: "poll", tick: 1 },
+    ]);
+    expect(onError).toHaveBeenCalledWith(error, {
+      delay: 1000,
+      label: "poll",
+      tick: 1,
+    });
+  });
+
+  it("should dispose every interval when cleared", () => {
+    const { pool, events } = setup();
+    pool.run(1000, () => {});
+    pool.run(2000, () => {});
+    events.length = 0;
+
+    pool.clear();
+
+    expect(events.filter(([type]) => type === "bucketDispose")).toEqual([
+      ["bucketDispose", { delay: 1000, phase: undefined }],
+      ["bucketDispose", { delay: 2000, phase: undefined }],
+    ]);
+    expect(events.filter(([type]) => type === "unsubscribe")).toHaveLength(2);
+  });
+
+  it("should stop calling removed listeners", () => {
+    const { clock, pool } = setup();
+    const listener = vi.fn();
+    const off = pool.on("tick", listener);
+    pool.run(1000, () => {});
+
+    clock.advanceBy(1000);
+    off();
+    clock.advanceBy(1000);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should isolate the pool from failing listeners", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const { clock, pool } = setup();
+    const callback = vi.fn();
+    pool.on("tick", () => {
+      throw new Error("Broken devtools");
+    });
+    pool.run(1000, callback);
+
+    clock.advanceBy(1000);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalledWith(
+      'Error in interval pool "tick" listener:',
+      expect.any(Error),
+    );
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  IntervalPool,
+  VirtualClock,
+  type CustomAnimationFrame,
+  type CustomIdleCallback,
+} from "../src";
+
+/** Animation frames rendered on demand. */
+function manualFrames() {
+  const requests = new Map<number, (time: number) => void>();
+  let nextId = 1;
+  const frame: CustomAnimationFrame<number> = {
+    request: (callback) => {
+      requests.set(nextId, callback);
+      return nextId++;
+    },
+    cancel: (id) => requests.delete(id),
+  };
+  const render = (time: number) => {
+    const callbacks = Array.from(requests.values());
+    requests.clear();
+    callbacks.forEach((callback) => callback(time));
+  };
+  return { frame, requests, render };
+}
+
+/** Idle periods started on demand. */
+function manualIdle() {
+  const requests = new Map<number, (deadline: IdleDeadline) => void>();
+  let nextId = 1;
+  const idle: CustomIdleCallback<number> = {
+    request: (callback) => {
+      requests.set(nextId, callback);
+      return nextId++;
+    },
+    cancel: (id) => requests.delete(id),
+  };
+  const deadline: IdleDeadline = {
+    didTimeout: false,
+    timeRemaining: () => 12,
+  };
+  const becomeIdle = () => {
+    const callbacks = Array.from(requests.values());
+    requests.clear();
+    callbacks.forEach((callback) => callback(deadline));
+  };
+  return { idle, requests, deadline, becomeIdle };
+}
+
+describe("frame", () => {
+  it("should run the callbacks on every frame with its timestamp", () => {
+    const { frame, render } = manualFrames();
+    const pool = new IntervalPool({ animationFrame: frame });
+    const update = vi.fn();
+    const draw = vi.fn();
+
+    pool.frame(update);
+    pool.frame(draw);
+    render(16.5);
+    render(33.2);
+
+    expect(update.mock.calls).toEqual([[16.5], [33.2]]);
+    expect(draw.mock.calls).toEqual([[16.5], [33.2]]);
+  });
+
+  it("should share a single frame loop", () => {
+    const { frame, requests, render } = manualFrames();
+    const pool = new IntervalPool({ animationFrame: frame });
+
+    pool.frame(() => {});
+    pool.frame(() => {});
+    render(16);
+
+    expect(requests.size).toBe(1);
+    expect(pool.getStats()).toEqual([
+      {
+        delay: 1000 / 60,
+        requestedDelays: [1000 / 60],
+        subscriptionCount: 2,
+        phase: undefined,
+        kind: "frame",
+      },
+    ]);
+  });
+
+  it("should cancel the frame loop once the last callback unsubscribes", () => {
+    const { frame, requests, render } = manualFrames();
+    const pool = new IntervalPool({ animationFrame: frame });
+    const callback = vi.fn();
+    const unsubscribe = pool.frame(() => {
+      callback();
+      unsubscribe();
+    });
+
+    render(16);
+    render(32);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(requests.size).toBe(0);
+    expect(pool.getActiveIntervalCount()).toBe(0);
+  });
+
+  it("should emulate 60 frames per second without animation frames", () => {
+    const clock = new VirtualClock();
+    const pool = new IntervalPool({ interval: clock });
+    const callback = vi.fn();
+
+    pool.frame(callback, { times: 60 });
+    clock.advanceBy(1000);
+
+    expect(callback).toHaveBeenCalledTimes(60);
+    expect(callback.mock.lastCall![0]).toBeCloseTo(1000);
+  });
+});
+
+describe("idle", () => {
+  it("should wait for the thread to be idle after each tick", () => {
+    const clock = new VirtualClock();
+    const { idle, deadline, becomeIdle } = manualIdle();
+    const pool = new IntervalPool({ interval: clock, idleCallback: idle });
+    const callback = vi.fn();
+
+    pool.idle(1000, callback);
+    clock.advanceBy(1000);
+    expect(callback).not.toHaveBeenCalled();
+
+    becomeIdle();
+    expect(callback).toHaveBeenCalledExactlyOnceWith(deadline);
+  });
+
+  it("should merge the ticks while the thread is busy", () => {
+    const clock = new VirtualClock();
+    const { idle, requests, becomeIdle } = manualIdle();
+    const pool = new IntervalPool({ interval: clock, idleCallback: idle });
+    const callback = vi.fn();
+    pool.idle(1000, callback);
+
+    clock.advanceBy(3000);
+    expect(requests.size).toBe(1);
+    becomeIdle();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep idle intervals apart from the regular ones", () => {
+    const clock = new VirtualClock();
+    const { idle } = manualIdle();
+    const pool = new IntervalPool({
+      interval: clock,
+      idleCallback: idle,
+      tolerance: 100,
+    });
+
+    pool.idle(1000, () => {});
+    pool.idle(1000, () => {});
+    pool.run(1000, () => {});
+    pool.run(1050, () => {});
+
+    expect(pool.getStats()).toEqual([
+      {
+        delay: 1000,
+        requestedDelays: [1000],
+        subscriptionCount: 2,
+        phase: undefined,
+        kind: "idle",
+      },
+      {
+        delay: 1000,
+        requestedDelays: [1000, 1050],
+        subscriptionCount: 2,
+        phase: undefined,
+        kind: undefined,
+      },
+    ]);
+  });
+
+  it("should cancel the pending idle request once unsubscribed", () => {
+    const clock = new VirtualClock();
+    const { idle, requests } = manualIdle();
+    const pool = new IntervalPool({ interval: clock, idleCallback: idle });
+    const unsubscribe = pool.idle(1000, () => {});
+
+    clock.advanceBy(1000);
+    unsubscribe();
+
+    expect(requests.size).toBe(0);
+    expect(clock.pendingTimers).toEqual([]);
+  });
+
+  it("should emulate idle periods without idle callbacks", () => {
+    const clock = new VirtualClock();
+    const pool = new IntervalPool({ interval: clock });
+    const remaining: number[] = [];
+
+    pool.idle(1000, (deadline) => {
+      remaining.push(deadline.timeRemaining());
+    });
+    clock.advanceBy(1001);
+
+    expect(remaining).toEqual([50]);
+  });
+
+  it("should collect the metrics of idle intervals separately", () => {
+    const clock = new VirtualClock();
+    const pool = new IntervalPool({ interval: clock, metrics: true });
+
+    pool.idle(1000, () => {});
+    pool.run(1000, () => {});
+    clock.advanceBy(1001);
+
+    expect(
+      pool.metrics!.snapshot().intervals.map(({ kind, ticks }) => ({
+        kind,
+        ticks,
+      })),
+    ).toEqual([
+      { kind: undefined, ticks: 1 },
+      { kind: "idle", ticks: 1 },
+    ]);
+  });
+});
@@ -1,5 +1,18 @@
-import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
-import { IntervalPool } from "../src/index";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  expectTypeOf,
+  test,
+  vi,
+} from "vitest";
+import {
+  IntervalPool,
+  VirtualClock,
+  type IntervalTick,
+  type IterateOptions,
+} from "../src/index";
 import { testPoolOptions } from "./helpers";
 
 describe("IntervalPool", () => {
@@ -132,6 +145,82 @@ describe("IntervalPool", () => {
       expect(consoleErrorSpy).toHaveBeenCalled();
     });
 
+    test("should handle rejected promises like thrown errors", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const asyncCallback = vi.fn(async () => {
+        throw new Error("Async error");
+      });
+      const normalCallback = vi.fn();
+
+      pool.run(1000, asyncCallback);
+      pool.run(1000, normalCallback);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(asyncCallback).toHaveBeenCalledTimes(1);
+      expect(normalCallback).toHaveBeenCalledTimes(1);
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
+
+    test("should not overlap async runs with skip policy", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const callback = vi.fn(async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 2500));
+        inFlight--;
+      });
+
+      pool.run(1000, callback, { overlap: "skip" });
+
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      // Runs start at 1s, 4s, 7s and 10s
+      expect(maxInFlight).toBe(1);
+      expect(callback).toHaveBeenCalledTimes(4);
+    });
+
+    test("should report errors to the pool error handler", () => {
+      const onError = vi.fn();
+      const error = new Error("Test error");
+      const customPool = new IntervalPool({ ...testPoolOptions, onError });
+
+      customPool.run(
+        1000,
+        () => {
+          throw error;
+        },
+        { label: "poll" },
+      );
+
+      vi.advanceTimersByTime(1000);
+
+      expect(onError).toHaveBeenCalledWith(error, {
+        delay: 1000,
+        label: "poll",
+        tick: 1,
+      });
+
+      customPool.clear();
+    });
+
+    test("should unsubscribe after maxConsecutiveErrors failures", () => {
+      const onError = vi.fn();
+      const callback = vi.fn(() => {
+        throw new Error("Test error");
+      });
+
+      pool.run(1000, callback, { onError, maxConsecutiveErrors: 2 });
+
+      vi.advanceTimersByTime(5000);
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+
     test("calling unsubscribe after clearing pool should be safe", () => {
       const callback = vi.fn();
       const unsubscribe = pool.run(1000, callback);
@@ -140,156 +229,1143 @@ describe("IntervalPool", () => {
 
       vi.advanceTimersByTime(5000);
 
-      expect(() => unsubscribe()).not.toThrow();
+      expect(() => unsubscribe()).not.toThrow();
+    });
+  });
+
+  describe("next and sleep", () => {
+    test("should resolve next on the next tick of the shared interval", async () => {
+      vi.setSystemTime(0);
+      pool.run(1000, () => {});
+      vi.advanceTimersByTime(700);
+
+      const next = pool.next(1000);
+      await vi.advanceTimersByTimeAsync(300);
+
+      await expect(next).resolves.toBeUndefined();
+      expect(Date.now()).toBe(1000);
+    });
+
+    test("should sleep at least the delay", async () => {
+      vi.setSystemTime(0);
+      pool.run(1000, () => {});
+      vi.advanceTimersByTime(700);
+
+      const resolved = vi.fn();
+      void pool.sleep(1000).then(resolved);
+      expect(pool.getStats()).toContainEqual({
+        delay: 1000,
+        requestedDelays: [1000],
+        subscriptionCount: 1,
+        phase: 700,
+      });
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(resolved).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(resolved).toHaveBeenCalled();
+    });
+
+    test("should sleep on an interval ticking within the window", async () => {
+      vi.setSystemTime(0);
+      pool.run(250, () => {});
+      vi.advanceTimersByTime(100);
+
+      const resolved = vi.fn();
+      void pool.sleep(600, { window: 100 }).then(resolved);
+
+      expect(pool.getActiveIntervalCount()).toBe(1);
+      expect(pool.getSubscriptionCount(250)).toBe(2);
+
+      await vi.advanceTimersByTimeAsync(649);
+      expect(resolved).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(resolved).toHaveBeenCalled();
+    });
+
+    test("should run once precisely", () => {
+      vi.setSystemTime(0);
+      const callback = vi.fn();
+      pool.run(1000, () => {});
+      vi.advanceTimersByTime(500);
+
+      pool.once(1000, callback, { precise: true });
+
+      vi.advanceTimersByTime(999);
+      expect(callback).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test("should resolve zero and negative sleeps on the next tick", async () => {
+      const clock = new VirtualClock();
+      const clockPool = new IntervalPool({ interval: clock });
+      const resolved = vi.fn();
+      const callback = vi.fn();
+
+      void clockPool.sleep(0).then(resolved);
+      void clockPool.sleep(-10).then(resolved);
+      clockPool.once(0, callback, { precise: true });
+      expect(clockPool.getStats()).toEqual([
+        {
+          delay: 0,
+          requestedDelays: [-10, 0],
+          subscriptionCount: 3,
+          phase: undefined,
+          kind: undefined,
+        },
+      ]);
+
+      clock.advanceBy(1);
+      await Promise.resolve();
+      expect(resolved).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(clockPool.getActiveIntervalCount()).toBe(0);
+    });
+
+    test("should reject when aborted", async () => {
+      const controller = new AbortController();
+      const sleep = pool.sleep(1000, { signal: controller.signal });
+
+      controller.abort();
+
+      await expect(sleep).rejects.toMatchObject({ name: "AbortError" });
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+
+    test("should reject when the pool is cleared", async () => {
+      const next = pool.next(1000);
+
+      pool.clear();
+
+      await expect(next).rejects.toThrow(
+        "The pool was cleared before the wait finished",
+      );
+    });
+  });
+
+  describe("limits", () => {
+    test("should end after the given number of runs", async () => {
+      const callback = vi.fn();
+      const onComplete = vi.fn();
+      const subscription = pool.run(1000, callback, { times: 3, onComplete });
+
+      vi.advanceTimersByTime(2000);
+      expect(pool.getSubscriptionCount(1000)).toBe(1);
+
+      vi.advanceTimersByTime(1000);
+      expect(callback).toHaveBeenCalledTimes(3);
+      expect(pool.getSubscriptionCount(1000)).toBe(0);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      await expect(subscription.closed).resolves.toBeUndefined();
+
+      vi.advanceTimersByTime(1000);
+      expect(callback).toHaveBeenCalledTimes(3);
+    });
+
+    test("should end at the until time, between ticks", () => {
+      vi.setSystemTime(0);
+      const callback = vi.fn();
+      const onComplete = vi.fn();
+      const subscription = pool.run(1000, callback, {
+        until: new Date(2500),
+        onComplete,
+      });
+
+      vi.advanceTimersByTime(2499);
+      expect(subscription.nextRunAt).toBeUndefined();
+      expect(pool.getSubscriptionCount(1000)).toBe(1);
+
+      vi.advanceTimersByTime(1);
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(pool.getSubscriptionCount(1000)).toBe(0);
+      expect(pool.getActiveIntervalCount()).toBe(0);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    test("should wait for deadlines past the timer limit", () => {
+      const DAY = 24 * 60 * 60 * 1000;
+      const onComplete = vi.fn();
+      const subscription = pool.run(DAY, () => {}, {
+        until: Date.now() + 30 * DAY + 500,
+        onComplete,
+      });
+
+      vi.advanceTimersByTime(1000);
+      expect(subscription.active).toBe(true);
+
+      vi.advanceTimersByTime(30 * DAY - 1000);
+      expect(subscription.active).toBe(true);
+
+      vi.advanceTimersByTime(500);
+      expect(subscription.active).toBe(false);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    test("should not run on a tick at the end of its maximum duration", () => {
+      const callback = vi.fn();
+      pool.run(1000, callback, { maxDuration: 2000 });
+
+      vi.advanceTimersByTime(2000);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(pool.getSubscriptionCount(1000)).toBe(0);
+    });
+
+    test("should not call onComplete when ending otherwise", () => {
+      const onComplete = vi.fn();
+      const unsubscribe = pool.run(1000, () => {}, {
+        times: 2,
+        maxDuration: 5000,
+        onComplete,
+      });
+      pool.run(1000, () => {}, { times: 2, onComplete });
+
+      unsubscribe();
+      pool.clear();
+      vi.advanceTimersByTime(5000);
+
+      expect(onComplete).not.toHaveBeenCalled();
+    });
+
+    test("should end right away when the deadline has passed", () => {
+      const onComplete = vi.fn();
+      const subscription = pool.run(1000, () => {}, {
+        until: Date.now() - 1,
+        onComplete,
+      });
+
+      expect(subscription.active).toBe(false);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+
+    test("should count the runs across backoff moves", () => {
+      const callback = vi.fn(() => {
+        if (callback.mock.calls.length < 3) throw new Error("Unavailable");
+      });
+      const onComplete = vi.fn();
+      const subscription = pool.runWithBackoff(1000, callback, {
+        onError: () => {},
+        times: 4,
+        onComplete,
+      });
+
+      vi.advanceTimersByTime(1000 + 2000 + 4000 + 1000);
+
+      expect(callback).toHaveBeenCalledTimes(4);
+      expect(subscription.active).toBe(false);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+
+    test("should finish an iteration once a limit is reached", async () => {
+      let count = 0;
+      const iteration = (async () => {
+        for await (const _ of pool.iterate(1000, { times: 3 })) count++;
+      })();
+
+      await vi.advanceTimersByTimeAsync(5000);
+      await iteration;
+
+      expect(count).toBe(3);
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+
+    test("should reject invalid limits", () => {
+      expect(() => pool.run(1000, () => {}, { times: 0 })).toThrow(
+        "Invalid times 0",
+      );
+      expect(() => pool.run(1000, () => {}, { maxDuration: -1 })).toThrow(
+        "Invalid maxDuration -1",
+      );
+      expect(() => pool.iterate(1000, { until: new Date(NaN) })).toThrow(
+        "Invalid until Invalid Date",
+      );
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+  });
+
+  describe("runWithBackoff", () => {
+    const onError = () => {};
+
+    test("should back off after failures and reset after a success", () => {
+      vi.setSystemTime(0);
+      const times: number[] = [];
+      let failing = true;
+      pool.runWithBackoff(
+        1000,
+        () => {
+          times.push(Date.now());
+          if (failing) throw new Error("Unavailable");
+        },
+        { onError },
+      );
+
+      vi.advanceTimersByTime(7000);
+      expect(times).toEqual([1000, 3000, 7000]);
+      expect(pool.getStats()).toEqual([
+        { delay: 8000, requestedDelays: [8000], subscriptionCount: 1 },
+      ]);
+
+      failing = false;
+      vi.advanceTimersByTime(8000);
+      vi.advanceTimersByTime(1000);
+      expect(times).toEqual([1000, 3000, 7000, 15000, 16000]);
+      expect(pool.getStats()).toEqual([
+        { delay: 1000, requestedDelays: [1000], subscriptionCount: 1 },
+      ]);
+    });
+
+    test("should back off after rejected promises", async () => {
+      const callback = vi.fn().mockRejectedValue(new Error("Unavailable"));
+      pool.runWithBackoff(1000, callback, { onError, factor: 3 });
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(pool.getStats()).toEqual([
+        { delay: 3000, requestedDelays: [3000], subscriptionCount: 1 },
+      ]);
+    });
+
+    test("should share the backed off intervals with other subscriptions", () => {
+      pool.run(2000, () => {});
+      pool.runWithBackoff(
+        1000,
+        () => {
+          throw new Error("Unavailable");
+        },
+        { onError },
+      );
+
+      vi.advanceTimersByTime(1000);
+
+      expect(pool.getActiveIntervalCount()).toBe(1);
+      expect(pool.getSubscriptionCount(2000)).toBe(2);
+    });
+
+    test("should not back off beyond the maximum delay", () => {
+      vi.setSystemTime(0);
+      const times: number[] = [];
+      let failing = true;
+      pool.runWithBackoff(
+        1000,
+        () => {
+          times.push(Date.now());
+          if (failing) throw new Error("Unavailable");
+        },
+        { onError, maxDelay: 2500, resetOnSuccess: false },
+      );
+
+      vi.advanceTimersByTime(8500);
+      expect(times).toEqual([1000, 3000, 5500, 8000]);
+
+      failing = false;
+      vi.advanceTimersByTime(2500 + 2000);
+      expect(times).toEqual([1000, 3000, 5500, 8000, 10500, 12500]);
+      expect(pool.getSubscriptionCount(1000)).toBe(1);
+    });
+
+    test("should count consecutive errors across delays", () => {
+      const callback = vi.fn(() => {
+        throw new Error("Unavailable");
+      });
+      pool.runWithBackoff(1000, callback, {
+        onError,
+        maxConsecutiveErrors: 3,
+      });
+
+      vi.advanceTimersByTime(20_000);
+
+      expect(callback).toHaveBeenCalledTimes(3);
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+
+    test("should keep the handle working after moving", () => {
+      const callback = vi.fn(() => {
+        throw new Error("Unavailable");
+      });
+      const subscription = pool.runWithBackoff(1000, callback, { onError });
+
+      vi.advanceTimersByTime(1000);
+      subscription.pause();
+      vi.advanceTimersByTime(10_000);
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      subscription();
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+
+    test("should reject invalid options", () => {
+      expect(() => pool.runWithBackoff(1000, () => {}, { factor: 1 })).toThrow(
+        "Invalid backoff factor 1",
+      );
+      expect(() =>
+        pool.runWithBackoff(1000, () => {}, { maxDelay: 500 }),
+      ).toThrow("The maximum delay 500 is shorter than the delay 1000");
+    });
+  });
+
+  describe("once", () => {
+    test("should execute callback only once on next tick", () => {
+      const cb = vi.fn();
+      pool.once(1000, cb);
+
+      expect(cb).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1000);
+      expect(cb).toHaveBeenCalledTimes(1);
+
+      // Ensure it does not run again
+      vi.advanceTimersByTime(2000);
+      expect(cb).toHaveBeenCalledTimes(1);
+    });
+
+    test("should not execute when unsubscribed before first tick", () => {
+      const cb = vi.fn();
+      const unsubscribe = pool.once(1000, cb);
+
+      unsubscribe();
+
+      vi.advanceTimersByTime(1000);
+      expect(cb).not.toHaveBeenCalled();
+    });
+
+    test("should allow multiple once callbacks even with same reference", () => {
+      const fn = vi.fn();
+      const callback = () => fn("called");
+
+      pool.once(1000, callback);
+      pool.once(1000, callback);
+      pool.once(1000, callback);
+
+      vi.advanceTimersByTime(1000);
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    test("should not affect regular interval callbacks", () => {
+      const onceCb = vi.fn();
+      const regularCb = vi.fn();
+
+      pool.once(1000, onceCb);
+      pool.run(1000, regularCb);
+
+      vi.advanceTimersByTime(1000);
+      expect(onceCb).toHaveBeenCalledTimes(1);
+      expect(regularCb).toHaveBeenCalledTimes(1);
+
+      // Regular callback continues, once callback does not
+      vi.advanceTimersByTime(1000);
+      expect(onceCb).toHaveBeenCalledTimes(1);
+      expect(regularCb).toHaveBeenCalledTimes(2);
+    });
+
+    test("should stop after first tick even if callback throws", () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      const errorCb = vi.fn(() => {
+        throw new Error("Test error");
+      });
+
+      pool.once(1000, errorCb);
+
+      vi.advanceTimersByTime(1000);
+      expect(errorCb).toHaveBeenCalledTimes(1);
+      expect(consoleErrorSpy).toHaveBeenCalled();
+
+      // Ensure it does not run again
+      vi.advanceTimersByTime(2000);
+      expect(errorCb).toHaveBeenCalledTimes(1);
+    });
+
+    test("ensure subscription is removed even if callback throws", () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const errorCb = vi.fn(() => {
+        throw new Error("Test error");
+      });
+
+      pool.once(1000, errorCb);
+
+      expect(pool.getSubscriptionCount(1000)).toBe(1);
+
+      vi.advanceTimersByTime(1000);
+      expect(errorCb).toHaveBeenCalledTimes(1);
+      expect(consoleErrorSpy).toHaveBeenCalled();
+
+      expect(pool.getSubscriptionCount(1000)).toBe(0);
+    });
+  });
+
+  describe("align", () => {
+    test("should snap ticks to multiples of the delay", () => {
+      vi.setSystemTime(12_345);
+      const times: number[] = [];
+
+      pool.run(1000, () => times.push(Date.now()), { align: true });
+
+      vi.advanceTimersByTime(3000);
+
+      expect(times).toEqual([13_000, 14_000, 15_000]);
+    });
+
+    test("should snap ticks to the given epoch offset", () => {
+      vi.setSystemTime(12_345);
+      const times: number[] = [];
+
+      pool.run(1000, () => times.push(Date.now()), { align: 500 });
+
+      vi.advanceTimersByTime(2000);
+
+      expect(times).toEqual([12_500, 13_500]);
+    });
+
+    test("should keep the phase after the interval is recreated", () => {
+      vi.setSystemTime(12_345);
+      const times: number[] = [];
+      const callback = () => times.push(Date.now());
+
+      const unsubscribe = pool.run(1000, callback, { align: true });
+      vi.advanceTimersByTime(1000);
+      unsubscribe();
+
+      vi.advanceTimersByTime(321);
+      pool.run(1000, callback, { align: true });
+      vi.advanceTimersByTime(1000);
+
+      expect(times).toEqual([13_000, 14_000]);
+    });
+
+    test("should use the pool align option by default", () => {
+      vi.setSystemTime(12_345);
+      const alignedPool = new IntervalPool({ ...testPoolOptions, align: true });
+      const times: number[] = [];
+
+      alignedPool.run(1000, () => times.push(Date.now()));
+      alignedPool.once(1000, () => times.push(-Date.now()), { align: false });
+
+      vi.advanceTimersByTime(1000);
+
+      expect(times).toEqual([13_000, -13_345]);
+      alignedPool.clear();
+    });
+
+    test("should not align zero delays", () => {
+      const clock = new VirtualClock({ start: 12_345 });
+      const clockPool = new IntervalPool({ interval: clock });
+      const callback = vi.fn();
+
+      clockPool.run(0, callback, { align: true });
+      clock.advanceBy(3);
+
+      expect(callback).toHaveBeenCalledTimes(3);
+      expect(clockPool.getStats()).toEqual([
+        {
+          delay: 0,
+          requestedDelays: [0],
+          subscriptionCount: 1,
+          phase: undefined,
+          kind: undefined,
+        },
+      ]);
+      clockPool.clear();
+    });
+
+    test("should keep aligned and unaligned subscriptions apart", () => {
+      pool.run(1000, vi.fn());
+      pool.run(1000, vi.fn(), { align: true });
+      pool.run(1000, vi.fn(), { align: 1000 });
+      pool.run(1000, vi.fn(), { align: 250 });
+
+      expect(pool.getActiveIntervalCount()).toBe(3);
+      expect(pool.getSubscriptionCount(1000)).toBe(4);
+      expect(pool.getStats()).toEqual([
+        { delay: 1000, requestedDelays: [1000], subscriptionCount: 1 },
+        {
+          delay: 1000,
+          requestedDelays: [1000],
+          subscriptionCount: 2,
+          phase: 0,
+        },
+        {
+          delay: 1000,
+          requestedDelays: [1000],
+          subscriptionCount: 1,
+          phase: 250,
+        },
+      ]);
+    });
+  });
+
+  describe("tolerance", () => {
+    test("should reuse a bucket within an absolute tolerance", () => {
+      const callback = vi.fn();
+
+      pool.run(1000, callback);
+      pool.run(995, callback, { tolerance: 10 });
+      pool.run(1010, callback, { tolerance: 10 });
+      pool.run(1020, callback, { tolerance: 10 });
+
+      expect(pool.getActiveIntervalCount()).toBe(2);
+      expect(pool.getStats()).toEqual([
+        {
+          delay: 1000,
+          requestedDelays: [995, 1000, 1010],
+          subscriptionCount: 3,
+        },
+        { delay: 1020, requestedDelays: [1020], subscriptionCount: 1 },
+      ]);
+
+      vi.advanceTimersByTime(1000);
+      expect(callback).toHaveBeenCalledTimes(3);
+    });
+
+    test("should reuse a bucket within a percentage tolerance", () => {
+      const tolerantPool = new IntervalPool({
+        ...testPoolOptions,
+        tolerance: "5%",
+      });
+
+      tolerantPool.run(60_000, vi.fn());
+      tolerantPool.run(62_500, vi.fn());
+      tolerantPool.run(57_500, vi.fn(), { tolerance: 0 });
+
+      expect(tolerantPool.getStats()).toEqual([
+        {
+          delay: 60_000,
+          requestedDelays: [60_000, 62_500],
+          subscriptionCount: 2,
+        },
+        { delay: 57_500, requestedDelays: [57_500], subscriptionCount: 1 },
+      ]);
+      tolerantPool.clear();
+    });
+
+    test("should prefer the exact and then the closest bucket", () => {
+      pool.run(1000, vi.fn());
+      pool.run(1040, vi.fn());
+      pool.run(1040, vi.fn(), { tolerance: 50 });
+      pool.run(1030, vi.fn(), { tolerance: 50 });
+
+      expect(pool.getSubscriptionCount(1000)).toBe(1);
+      expect(pool.getSubscriptionCount(1040)).toBe(3);
+    });
+
+    test("should not mix aligned and unaligned buckets", () => {
+      pool.run(1000, vi.fn(), { align: true });
+      pool.run(1005, vi.fn(), { tolerance: 10 });
+      pool.run(1005, vi.fn(), { tolerance: 10, align: true });
+
+      expect(pool.getActiveIntervalCount()).toBe(2);
+      expect(pool.getSubscriptionCount(1000)).toBe(2);
+    });
+
+    test("should unsubscribe from the shared bucket", () => {
+      pool.run(1000, vi.fn());
+      const unsubscribe = pool.run(990, vi.fn(), { tolerance: 10 });
+
+      unsubscribe();
+
+      expect(pool.getStats()).toEqual([
+        { delay: 1000, requestedDelays: [1000], subscriptionCount: 1 },
+      ]);
+    });
+
+    test("should reject malformed percentages", () => {
+      expect(() =>
+        pool.run(1000, vi.fn(), { tolerance: "five%" as `${number}%` }),
+      ).toThrow('Invalid tolerance "five%"');
+    });
+  });
+
+  describe("unsubscribe", () => {
+    test("should stop executing callback after unsubscribe", () => {
+      const callback = vi.fn();
+      const unsubscribe = pool.run(1000, callback);
+
+      vi.advanceTimersByTime(1000);
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+
+      vi.advanceTimersByTime(1000);
+      expect(callback).toHaveBeenCalledTimes(1); // Should still be 1
+
+      vi.advanceTimersByTime(1000);
+      expect(callback).toHaveBeenCalledTimes(1); // Should still be 1
+    });
+
+    test("should only unsubscribe specific callback", () => {
+      const callback1 = vi.fn();
+      const callback2 = vi.fn();
+
+      const unsubscribe1 = pool.run(1000, callback1);
+      pool.run(1000, callback2);
+
+      vi.advanceTimersByTime(1000);
+      expect(callback1).toHaveBeenCalledTimes(1);
+      expect(callback2).toHaveBeenCalledTimes(1);
+
+      unsubscribe1();
+
+      vi.advanceTimersByTime(1000);
+      expect(callback1).toHaveBeenCalledTimes(1); // Stopped
+      expect(callback2).toHaveBeenCalledTimes(2); // Still running
+    });
+
+    test("should clear interval when last callback is unsubscribed", () => {
+      const callback = vi.fn();
+      const unsubscribe = pool.run(1000, callback);
+
+      expect(pool.getActiveIntervalCount()).toBe(1);
+
+      unsubscribe();
+
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+
+    test("should handle multiple unsubscribe calls gracefully", () => {
+      const callback = vi.fn();
+      const unsubscribe = pool.run(1000, callback);
+
+      unsubscribe();
+      unsubscribe(); // Should not throw
+
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+  });
+
+  describe("jitter", () => {
+    test("should delay each run within the period", () => {
+      vi.setSystemTime(0);
+      const times: number[] = [];
+      pool.run(1000, () => times.push(Date.now() % 1000), { jitter: 200 });
+
+      vi.advanceTimersByTime(10_200);
+
+      expect(times).toHaveLength(10);
+      for (const time of times) {
+        expect(time).toBeGreaterThanOrEqual(0);
+        expect(time).toBeLessThanOrEqual(200);
+      }
+      expect(pool.getActiveIntervalCount()).toBe(1);
+    });
+
+    test("should produce the same offsets for the same seed", () => {
+      const first: number[] = [];
+      const second: number[] = [];
+      pool.run(1000, () => first.push(Date.now()), {
+        jitter: { max: 500, seed: 42 },
+      });
+      pool.run(1000, () => second.push(Date.now()), {
+        jitter: { max: 500, seed: 42 },
+      });
+
+      vi.advanceTimersByTime(5500);
+
+      expect(first).toHaveLength(5);
+      expect(second).toEqual(first);
+    });
+
+    test("should reject invalid options", () => {
+      expect(() => pool.run(1000, () => {}, { jitter: -1 })).toThrow(
+        "Invalid jitter -1",
+      );
+      expect(() =>
+        pool.run(1000, () => {}, { jitter: 100, spread: true }),
+      ).toThrow("Cannot combine jitter and spread");
+    });
+  });
+
+  describe("execution order", () => {
+    test("should order the subscriptions sharing an interval", () => {
+      const calls: string[] = [];
+      pool.run(1000, () => calls.push("fetch"), { after: ["auth"] });
+      pool.once(1000, () => calls.push("log"), { priority: -1 });
+      pool.run(1000, () => calls.push("auth"), { label: "auth" });
+      pool.run(1000, () => calls.push("urgent"), { priority: 1 });
+
+      vi.advanceTimersByTime(1000);
+
+      expect(calls).toEqual(["urgent", "auth", "fetch", "log"]);
+    });
+
+    test("should ignore dependencies on other intervals", () => {
+      const calls: string[] = [];
+      pool.run(1000, () => calls.push("fetch"), { after: ["auth"] });
+      pool.run(500, () => calls.push("auth"), { label: "auth" });
+
+      vi.advanceTimersByTime(1000);
+
+      expect(calls).toEqual(["auth", "fetch", "auth"]);
+    });
+  });
+
+  describe("subscription handle", () => {
+    test("should track runs", () => {
+      vi.setSystemTime(0);
+      const subscription = pool.run(1000, () => {});
+
+      expect(subscription.active).toBe(true);
+      expect(subscription.runCount).toBe(0);
+      expect(subscription.lastRunAt).toBeUndefined();
+      expect(subscription.nextRunAt).toBe(1000);
+
+      vi.advanceTimersByTime(2500);
+
+      expect(subscription.runCount).toBe(2);
+      expect(subscription.lastRunAt).toBe(2000);
+      expect(subscription.nextRunAt).toBe(3000);
+    });
+
+    test("should only resume right away when a tick would run it", () => {
+      const callback = vi.fn();
+      const precise = pool.once(1000, callback, { precise: true });
+      const subscription = pool.run(1000, callback);
+
+      vi.advanceTimersByTime(10);
+      precise.pause();
+      precise.resume("immediate");
+      expect(callback).not.toHaveBeenCalled();
+
+      pool.pause();
+      subscription.pause();
+      subscription.resume("immediate");
+      expect(callback).not.toHaveBeenCalled();
+
+      pool.resume();
+      vi.advanceTimersByTime(990);
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    test("should have no next run while paused", () => {
+      vi.setSystemTime(0);
+      const subscription = pool.run(1000, () => {});
+
+      subscription.pause();
+      expect(subscription.nextRunAt).toBeUndefined();
+
+      vi.advanceTimersByTime(1500);
+      subscription.resume("restart");
+      // The shared interval keeps its phase: the first tick after 2500
+      expect(subscription.nextRunAt).toBe(3000);
+    });
+
+    test("should close when unsubscribed", async () => {
+      const subscription = pool.run(1000, () => {});
+
+      subscription.unsubscribe();
+
+      expect(subscription.active).toBe(false);
+      expect(subscription.nextRunAt).toBeUndefined();
+      await expect(subscription.closed).resolves.toBeUndefined();
+    });
+
+    test("should close after a once run", async () => {
+      const subscription = pool.once(1000, () => {});
+
+      vi.advanceTimersByTime(1000);
+
+      expect(subscription.runCount).toBe(1);
+      expect(subscription.active).toBe(false);
+      await subscription.closed;
+    });
+
+    test("should close when the pool is cleared", async () => {
+      const subscription = pool.run(1000, () => {});
+      const backoff = pool.runWithBackoff(1000, () => {});
+
+      pool.clear();
+
+      expect(subscription.active).toBe(false);
+      expect(backoff.active).toBe(false);
+      await Promise.all([subscription.closed, backoff.closed]);
+    });
+
+    test("should keep counting runs across backoff delays", async () => {
+      const subscription = pool.runWithBackoff(
+        1000,
+        () => {
+          throw new Error("Unavailable");
+        },
+        { onError: () => {}, maxConsecutiveErrors: 3 },
+      );
+
+      vi.advanceTimersByTime(3000);
+      expect(subscription.runCount).toBe(2);
+      expect(subscription.active).toBe(true);
+
+      vi.advanceTimersByTime(4000);
+      expect(subscription.runCount).toBe(3);
+      expect(subscription.active).toBe(false);
+      await subscription.closed;
+    });
+  });
+
+  describe("pause and resume", () => {
+    test("should pause and resume a single subscription", () => {
+      const paused = vi.fn();
+      const running = vi.fn();
+      const subscription = pool.run(1000, paused);
+      pool.run(1000, running);
+
+      subscription.pause();
+      expect(subscription.paused).toBe(true);
+
+      vi.advanceTimersByTime(2000);
+      expect(paused).not.toHaveBeenCalled();
+      expect(running).toHaveBeenCalledTimes(2);
+
+      subscription.resume();
+      expect(subscription.paused).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+      expect(paused).toHaveBeenCalledTimes(1);
+    });
+
+    test("should still unsubscribe when called as a function", () => {
+      const callback = vi.fn();
+      const subscription = pool.run(1000, callback);
+
+      subscription.unsubscribe();
+
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+
+    test("should pause every interval of a delay", () => {
+      const paused = vi.fn();
+      const running = vi.fn();
+      pool.run(1000, paused);
+      pool.run(500, running);
+
+      pool.pauseDelay(1000);
+      pool.run(1000, paused);
+
+      vi.advanceTimersByTime(2000);
+      expect(paused).not.toHaveBeenCalled();
+      expect(running).toHaveBeenCalledTimes(4);
+
+      pool.resumeDelay(1000);
+      vi.advanceTimersByTime(1000);
+      expect(paused).toHaveBeenCalledTimes(2);
+    });
+
+    test("should pause the whole pool and release its timers", () => {
+      const callback = vi.fn();
+      pool.run(1000, callback);
+      pool.run(500, callback);
+
+      pool.pause();
+      expect(pool.paused).toBe(true);
+      expect(vi.getTimerCount()).toBe(0);
+
+      pool.run(250, callback);
+      vi.advanceTimersByTime(2000);
+      expect(callback).not.toHaveBeenCalled();
+      expect(vi.getTimerCount()).toBe(0);
+
+      pool.resume("immediate");
+      expect(callback).toHaveBeenCalledTimes(3);
+    });
+
+    test("should keep delays paused individually when the pool resumes", () => {
+      const callback = vi.fn();
+      pool.run(1000, callback);
+
+      pool.pauseDelay(1000);
+      pool.pause();
+      pool.resume();
+
+      vi.advanceTimersByTime(2000);
+      expect(callback).not.toHaveBeenCalled();
+
+      pool.resumeDelay(1000);
+      vi.advanceTimersByTime(1000);
+      expect(callback).toHaveBeenCalledTimes(1);
     });
   });
 
-  describe("once", () => {
-    test("should execute callback only once on next tick", () => {
-      const cb = vi.fn();
-      pool.once(1000, cb);
-
-      expect(cb).not.toHaveBeenCalled();
+  describe("abort signal", () => {
+    test("should unsubscribe when the signal aborts", async () => {
+      const controller = new AbortController();
+      const callback = vi.fn();
+      const subscription = pool.run(1000, callback, {
+        signal: controller.signal,
+      });
 
       vi.advanceTimersByTime(1000);
-      expect(cb).toHaveBeenCalledTimes(1);
-
-      // Ensure it does not run again
+      controller.abort();
       vi.advanceTimersByTime(2000);
-      expect(cb).toHaveBeenCalledTimes(1);
-    });
 
-    test("should not execute when unsubscribed before first tick", () => {
-      const cb = vi.fn();
-      const unsubscribe = pool.once(1000, cb);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(pool.getActiveIntervalCount()).toBe(0);
+      await subscription.closed;
+    });
 
-      unsubscribe();
+    test("should not run with an already aborted signal", () => {
+      const callback = vi.fn();
+      const subscription = pool.once(1000, callback, {
+        signal: AbortSignal.abort(),
+      });
 
       vi.advanceTimersByTime(1000);
-      expect(cb).not.toHaveBeenCalled();
-    });
 
-    test("should allow multiple once callbacks even with same reference", () => {
-      const fn = vi.fn();
-      const callback = () => fn("called");
+      expect(callback).not.toHaveBeenCalled();
+      expect(subscription.active).toBe(false);
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
 
-      pool.once(1000, callback);
-      pool.once(1000, callback);
-      pool.once(1000, callback);
+    test("should stop a backoff subscription on any delay", () => {
+      const controller = new AbortController();
+      const subscription = pool.runWithBackoff(
+        1000,
+        () => {
+          throw new Error("Unavailable");
+        },
+        { onError: () => {}, signal: controller.signal },
+      );
 
       vi.advanceTimersByTime(1000);
-      expect(fn).toHaveBeenCalledTimes(3);
+      controller.abort();
+
+      expect(subscription.active).toBe(false);
+      expect(pool.getActiveIntervalCount()).toBe(0);
     });
 
-    test("should not affect regular interval callbacks", () => {
-      const onceCb = vi.fn();
-      const regularCb = vi.fn();
+    test("should throw the abort reason from a waiting iteration", async () => {
+      const controller = new AbortController();
+      const ticks = vi.fn();
 
-      pool.once(1000, onceCb);
-      pool.run(1000, regularCb);
+      const iteration = (async () => {
+        for await (const _ of pool.iterate(1000, {
+          signal: controller.signal,
+        })) {
+          ticks();
+        }
+      })();
 
-      vi.advanceTimersByTime(1000);
-      expect(onceCb).toHaveBeenCalledTimes(1);
-      expect(regularCb).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1500);
+      controller.abort();
 
-      // Regular callback continues, once callback does not
-      vi.advanceTimersByTime(1000);
-      expect(onceCb).toHaveBeenCalledTimes(1);
-      expect(regularCb).toHaveBeenCalledTimes(2);
+      await expect(iteration).rejects.toMatchObject({ name: "AbortError" });
+      expect(ticks).toHaveBeenCalledTimes(1);
+      expect(pool.getActiveIntervalCount()).toBe(0);
     });
 
-    test("should stop after first tick even if callback throws", () => {
-      const consoleErrorSpy = vi
-        .spyOn(console, "error")
-        .mockImplementation(() => {});
-
-      const errorCb = vi.fn(() => {
-        throw new Error("Test error");
-      });
+    test("should finish the iteration when configured to return", async () => {
+      const controller = new AbortController();
 
-      pool.once(1000, errorCb);
+      const iteration = (async () => {
+        for await (const _ of pool.iterate(1000, {
+          signal: controller.signal,
+          onAbort: "return",
+        })) {
+          // Waits for ticks
+        }
+      })();
 
-      vi.advanceTimersByTime(1000);
-      expect(errorCb).toHaveBeenCalledTimes(1);
-      expect(consoleErrorSpy).toHaveBeenCalled();
+      controller.abort(new Error("Ignored"));
 
-      // Ensure it does not run again
-      vi.advanceTimersByTime(2000);
-      expect(errorCb).toHaveBeenCalledTimes(1);
+      await expect(iteration).resolves.toBeUndefined();
     });
 
-    test("ensure subscription is removed even if callback throws", () => {
-      const consoleErrorSpy = vi
-        .spyOn(console, "error")
-        .mockImplementation(() => {});
-      const errorCb = vi.fn(() => {
-        throw new Error("Test error");
+    test("should clear the pool when the pool signal aborts", async () => {
+      const controller = new AbortController();
+      const signalPool = new IntervalPool({
+        ...testPoolOptions,
+        signal: controller.signal,
       });
+      const subscription = signalPool.run(1000, () => {});
+      signalPool.run(2000, () => {});
 
-      pool.once(1000, errorCb);
-
-      expect(pool.getSubscriptionCount(1000)).toBe(1);
+      controller.abort();
 
-      vi.advanceTimersByTime(1000);
-      expect(errorCb).toHaveBeenCalledTimes(1);
-      expect(consoleErrorSpy).toHaveBeenCalled();
+      expect(signalPool.getActiveIntervalCount()).toBe(0);
+      await subscription.closed;
 
-      expect(pool.getSubscriptionCount(1000)).toBe(0);
+      signalPool.run(1000, () => {});
+      expect(signalPool.getActiveIntervalCount()).toBe(0);
     });
   });
 
-  describe("unsubscribe", () => {
-    test("should stop executing callback after unsubscribe", () => {
-      const callback = vi.fn();
-      const unsubscribe = pool.run(1000, callback);
-
-      vi.advanceTimersByTime(1000);
-      expect(callback).toHaveBeenCalledTimes(1);
-
-      unsubscribe();
+  describe("dispose", () => {
+    test("should clear the pool and reject further use", () => {
+      const disposable = new IntervalPool(testPoolOptions);
+      const subscription = disposable.run(1000, () => {});
 
-      vi.advanceTimersByTime(1000);
-      expect(callback).toHaveBeenCalledTimes(1); // Should still be 1
+      disposable.dispose();
 
-      vi.advanceTimersByTime(1000);
-      expect(callback).toHaveBeenCalledTimes(1); // Should still be 1
+      expect(disposable.disposed).toBe(true);
+      expect(subscription.active).toBe(false);
+      expect(disposable.getActiveIntervalCount()).toBe(0);
+      expect(() => disposable.run(1000, () => {})).toThrow(
+        "Cannot subscribe to a disposed pool",
+      );
+      expect(() => disposable.iterate(1000)).toThrow(
+        "Cannot subscribe to a disposed pool",
+      );
+      expect(() => disposable.pause()).toThrow("Cannot pause a disposed pool");
+      expect(() => disposable.dispose()).not.toThrow();
     });
 
-    test("should only unsubscribe specific callback", () => {
-      const callback1 = vi.fn();
-      const callback2 = vi.fn();
-
-      const unsubscribe1 = pool.run(1000, callback1);
-      pool.run(1000, callback2);
+    test("should dispose the pool at the end of a using block", () => {
+      const callback = vi.fn();
+      let scoped: IntervalPool;
+      {
+        using pool = new IntervalPool(testPoolOptions);
+        pool.run(1000, callback);
+        scoped = pool;
+      }
 
       vi.advanceTimersByTime(1000);
-      expect(callback1).toHaveBeenCalledTimes(1);
-      expect(callback2).toHaveBeenCalledTimes(1);
-
-      unsubscribe1();
 
-      vi.advanceTimersByTime(1000);
-      expect(callback1).toHaveBeenCalledTimes(1); // Stopped
-      expect(callback2).toHaveBeenCalledTimes(2); // Still running
+      expect(callback).not.toHaveBeenCalled();
+      expect(scoped.disposed).toBe(true);
     });
 
-    test("should clear interval when last callback is unsubscribed", () => {
+    test("should unsubscribe a subscription at the end of a using block", () => {
       const callback = vi.fn();
-      const unsubscribe = pool.run(1000, callback);
-
-      expect(pool.getActiveIntervalCount()).toBe(1);
+      {
+        using _subscription = pool.run(1000, callback);
+      }
 
-      unsubscribe();
+      vi.advanceTimersByTime(1000);
 
+      expect(callback).not.toHaveBeenCalled();
       expect(pool.getActiveIntervalCount()).toBe(0);
     });
 
-    test("should handle multiple unsubscribe calls gracefully", () => {
-      const callback = vi.fn();
-      const unsubscribe = pool.run(1000, callback);
+    test("should wait for running callbacks when disposed asynchronously", async () => {
+      const asyncPool = new IntervalPool(testPoolOptions);
+      let finished = false;
+      asyncPool.run(1000, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 500));
+        finished = true;
+      });
 
-      unsubscribe();
-      unsubscribe(); // Should not throw
+      vi.advanceTimersByTime(1000);
+      const disposed = asyncPool[Symbol.asyncDispose]();
+      expect(asyncPool.disposed).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(500);
+      await disposed;
+      expect(finished).toBe(true);
+    });
+
+    test("should close an iteration at the end of an await using block", async () => {
+      {
+        await using ticks = pool.iterate(1000);
+        const next = ticks.next();
+        vi.advanceTimersByTime(1000);
+        await next;
+        expect(pool.getActiveIntervalCount()).toBe(1);
+      }
 
       expect(pool.getActiveIntervalCount()).toBe(0);
     });
@@ -404,6 +1480,95 @@ describe("IntervalPool", () => {
         done: true,
       });
     });
+
+    describe("overflow", () => {
+      test("should yield tick metadata", async () => {
+        vi.setSystemTime(0);
+        const iterator = pool.iterate(1000, { overflow: "burst" });
+
+        const first = iterator.next();
+        vi.advanceTimersByTime(2000);
+
+        await expect(first).resolves.toEqual({
+          value: { index: 0, scheduledAt: 1000, firedAt: 1000, missed: 0 },
+          done: false,
+        });
+        await expect(iterator.next()).resolves.toEqual({
+          value: { index: 1, scheduledAt: 2000, firedAt: 2000, missed: 0 },
+          done: false,
+        });
+        await iterator.return();
+      });
+
+      test("should keep only the latest tick", async () => {
+        const iterator = pool.iterate(1000, { overflow: "latest" });
+
+        const first = iterator.next();
+        vi.advanceTimersByTime(10_000);
+
+        expect((await first).value).toMatchObject({ index: 0, missed: 0 });
+        expect((await iterator.next()).value).toMatchObject({
+          index: 9,
+          missed: 8,
+        });
+        await iterator.return();
+      });
+
+      test("should drop the ticks that arrive while busy", async () => {
+        const iterator = pool.iterate(1000, { overflow: "drop" });
+
+        const first = iterator.next();
+        vi.advanceTimersByTime(10_000);
+        expect((await first).value).toMatchObject({ index: 0, missed: 0 });
+
+        const second = iterator.next();
+        vi.advanceTimersByTime(1000);
+        expect((await second).value).toMatchObject({ index: 10, missed: 9 });
+        await iterator.return();
+      });
+
+      test("should keep a bounded buffer of the latest ticks", async () => {
+        const iterator = pool.iterate(1000, { overflow: { buffer: 3 } });
+
+        const first = iterator.next();
+        vi.advanceTimersByTime(10_000);
+        await first;
+
+        const ticks = [];
+        for (let i = 0; i < 3; i++) ticks.push((await iterator.next()).value);
+
+        expect(ticks).toMatchObject([
+          { index: 7, missed: 6 },
+          { index: 8, missed: 0 },
+          { index: 9, missed: 0 },
+        ]);
+        await iterator.return();
+      });
+
+      test("should type the ticks after the options", () => {
+        const options: IterateOptions = { overflow: "drop" };
+
+        expectTypeOf(pool.iterate(1000)).toEqualTypeOf<
+          AsyncGenerator<void, void, unknown>
+        >();
+        expectTypeOf(pool.iterate(1000, { overflow: "drop" })).toEqualTypeOf<
+          AsyncGenerator<IntervalTick, void, unknown>
+        >();
+        expectTypeOf(pool.iterate(1000, options)).toEqualTypeOf<
+          AsyncGenerator<IntervalTick | void, void, unknown>
+        >();
+        expectTypeOf(pool.iterateCron("* * * * *", options)).toEqualTypeOf<
+          AsyncGenerator<IntervalTick | void, void, unknown>
+        >();
+        pool.clear();
+      });
+
+      test("should reject invalid buffers", () => {
+        expect(() => pool.iterate(1000, { overflow: { buffer: -1 } })).toThrow(
+          "Invalid overflow buffer -1",
+        );
+      });
+    });
   });
 
   describe("clear", () => {
@@ -499,9 +1664,21 @@ describe("IntervalPool", () => {
       const stats = pool.getStats();
 
       expect(stats).toHaveLength(3);
-      expect(stats).toContainEqual({ delay: 1000, subscriptionCount: 2 });
-      expect(stats).toContainEqual({ delay: 2000, subscriptionCount: 1 });
-      expect(stats).toContainEqual({ delay: 3000, subscriptionCount: 3 });
+      expect(stats).toContainEqual({
+        delay: 1000,
+        requestedDelays: [1000],
+        subscriptionCount: 2,
+      });
+      expect(stats).toContainEqual({
+        delay: 2000,
+        requestedDelays: [2000],
+        subscriptionCount: 1,
+      });
+      expect(stats).toContainEqual({
+        delay: 3000,
+        requestedDelays: [3000],
+        subscriptionCount: 3,
+      });
     });
   });
 
@@ -574,4 +1751,228 @@ describe("IntervalPool", () => {
       pool2.clear();
     });
   });
+
+  describe("scope", () => {
+    test("should share the intervals of the parent pool", () => {
+      const setIntervalSpy = vi.spyOn(globalThis, "setInterval");
+      const scope = pool.scope();
+      const callback1 = vi.fn();
+      const callback2 = vi.fn();
+
+      pool.run(1000, callback1);
+      scope.run(1000, callback2);
+      vi.advanceTimersByTime(1000);
+
+      expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+      expect(callback1).toHaveBeenCalledTimes(1);
+      expect(callback2).toHaveBeenCalledTimes(1);
+      expect(pool.getSubscriptionCount(1000)).toBe(2);
+    });
+
+    test("should only clear the subscriptions of the scope", () => {
+      const scope = pool.scope();
+      const callback1 = vi.fn();
+      const callback2 = vi.fn();
+      pool.run(1000, callback1);
+      const subscription = scope.run(1000, callback2);
+      scope.once(2000, callback2);
+
+      scope.clear();
+      vi.advanceTimersByTime(2000);
+
+      expect(subscription.active).toBe(false);
+      expect(callback1).toHaveBeenCalledTimes(2);
+      expect(callback2).not.toHaveBeenCalled();
+      expect(pool.getActiveIntervalCount()).toBe(1);
+      expect(scope.getActiveIntervalCount()).toBe(0);
+    });
+
+    test("should end the iterations of the scope when cleared", async () => {
+      const scope = pool.scope();
+      const iteration = scope.iterate(1000).next();
+
+      scope.clear();
+
+      await expect(iteration).resolves.toEqual({
+        done: true,
+        value: undefined,
+      });
+    });
+
+    test("should throw once disposed, without affecting the parent", () => {
+      const scope = pool.scope();
+      scope.run(1000, vi.fn());
+
+      scope.dispose();
+
+      expect(() => scope.run(1000, vi.fn())).toThrow(
+        "Cannot subscribe to a disposed pool",
+      );
+      expect(() => scope.scope()).toThrow(
+        "Cannot create a scope of a disposed pool",
+      );
+      expect(() => pool.run(1000, vi.fn())).not.toThrow();
+    });
+
+    test("should report the stats of its own subscriptions", () => {
+      const scope = pool.scope();
+      pool.run(1000, vi.fn());
+      pool.run(2000, vi.fn());
+      scope.run(1000, vi.fn());
+      scope.run(1000, vi.fn(), { tolerance: 100 });
+      scope.run(1050, vi.fn(), { tolerance: 100 });
+
+      expect(scope.getStats()).toEqual([
+        {
+          delay: 1000,
+          requestedDelays: [1000, 1050],
+          subscriptionCount: 3,
+          phase: undefined,
+          kind: undefined,
+        },
+      ]);
+      expect(scope.getSubscriptionCount(1000)).toBe(3);
+      expect(scope.getSubscriptionCount(2000)).toBe(0);
+      expect(pool.getSubscriptionCount(1000)).toBe(4);
+    });
+
+    test("should include the subscriptions of nested scopes", () => {
+      const scope = pool.scope();
+      const nested = scope.scope();
+      const callback = vi.fn();
+      nested.run(1000, callback);
+
+      expect(scope.getSubscriptionCount(1000)).toBe(1);
+      scope.clear();
+      vi.advanceTimersByTime(1000);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(pool.getActiveIntervalCount()).toBe(0);
+    });
+
+    test("should only pause the subscriptions of the scope", () => {
+      const scope = pool.scope();
+      const paused = vi.fn();
+      const running = vi.fn();
+      scope.run(1000, paused);
+      pool.run(1000, running);
+
+      scope.pause();
+      scope.run(1000, paused);
+      vi.advanceTimersByTime(2000);
+
+      expect(paused).not.toHaveBeenCalled();
+      expect(running).toHaveBeenCalledTimes(2);
+
+      scope.resume();
+      vi.advanceTimersByTime(1000);
+
+      expect(paused).toHaveBeenCalledTimes(2);
+    });
+
+    test("should pause a delay of the scope only", () => {
+      const scope = pool.scope();
+      const paused = vi.fn();
+      const running = vi.fn();
+      scope.run(1000, paused);
+      scope.run(500, running);
+      pool.run(1000, running);
+
+      scope.pauseDelay(1000);
+      vi.advanceTimersByTime(1000);
+
+      expect(paused).not.toHaveBeenCalled();
+      expect(running).toHaveBeenCalledTimes(3);
+
+      scope.resumeDelay(1000);
+      vi.advanceTimersByTime(1000);
+
+      expect(paused).toHaveBeenCalledTimes(1);
+    });
+
+    test("should leave the subscriptions paused by the caller paused", () => {
+      const scope = pool.scope();
+      const callback = vi.fn();
+      const paused = scope.run(1000, callback);
+      const delayed = scope.run(1000, callback);
+      paused.pause();
+
+      scope.pause();
+      scope.pauseDelay(1000);
+      scope.resume();
+      expect(delayed.paused).toBe(true);
+
+      scope.resumeDelay(1000);
+      vi.advanceTimersByTime(1000);
+
+      expect(paused.paused).toBe(true);
+      expect(delayed.paused).toBe(false);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test("should keep the subscriptions paused while a scope holds them", () => {
+      const outer = pool.scope();
+      const inner = outer.scope();
+      const subscription = inner.run(1000, vi.fn());
+
+      inner.pause();
+      outer.pause();
+      inner.resume();
+      expect(subscription.paused).toBe(true);
+
+      outer.resume();
+      expect(subscription.paused).toBe(false);
+    });
+
+    test("should stop listening to its signal once disposed", () => {
+      const { signal } = new AbortController();
+      const addEventListener = vi.spyOn(signal, "addEventListener");
+      const removeEventListener = vi.spyOn(signal, "removeEventListener");
+      const scope = pool.scope({ signal });
+      const [, listener] = addEventListener.mock.calls[0]!;
+
+      scope.dispose();
+
+      expect(removeEventListener).toHaveBeenCalledWith("abort", listener);
+    });
+
+    test("should clear the scope when its signal aborts", () => {
+      const controller = new AbortController();
+      const scope = pool.scope({ signal: controller.signal });
+      const callback = vi.fn();
+      scope.run(1000, callback);
+      pool.run(1000, vi.fn());
+
+      controller.abort();
+
+      expect(scope.getActiveIntervalCount()).toBe(0);
+      expect(pool.getSubscriptionCount(1000)).toBe(1);
+      expect(scope.run(1000, callback).active).toBe(false);
+    });
+
+    test("should be cleared along with the parent pool", () => {
+      const scope = pool.scope();
+      const subscription = scope.run(1000, vi.fn());
+
+      pool.clear();
+
+      expect(subscription.active).toBe(false);
+      expect(scope.getStats()).toEqual([]);
+    });
+
+    test("should emit the events of the parent pool", () => {
+      const scope = pool.scope();
+      const listener = vi.fn();
+      scope.on("subscribe", listener);
+
+      pool.run(1000, vi.fn());
+
+      expect(listener).toHaveBeenCalledExactlyOnceWith({
+        delay: 1000,
+        phase: undefined,
+        requestedDelay: 1000,
+        label: undefined,
+      });
+    });
+  });
 });
@@ -0,0 +1,208 @@
+import { describe, expect, it, vi } from "vitest";
+import { IntervalPool, VirtualClock, type IntervalPoolOptions } from "../src";
+
+function setup(options?: IntervalPoolOptions) {
+  const clock = new VirtualClock();
+  const pool = new IntervalPool({ interval: clock, metrics: true, ...options });
+  return { clock, pool };
+}
+
+/** Starts an async run that settles once `finish` is called. */
+function deferredCallback() {
+  let finish = () => {};
+  const callback = () =>
+    new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+  return { callback, finish: () => finish() };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+describe("metrics", () => {
+  it("should be disabled by default", () => {
+    const pool = new IntervalPool({ interval: new VirtualClock() });
+
+    expect(pool.metrics).toBeUndefined();
+  });
+
+  it("should count the ticks, runs and errors of each interval", () => {
+    const { clock, pool } = setup({ onError: () => {} });
+    pool.run(1000, () => {}, { label: "poll" });
+    pool.run(1000, () => {
+      throw new Error("Unavailable");
+    });
+    pool.run(500, () => {});
+
+    clock.advanceBy(2000);
+    const { intervals } = pool.metrics!.snapshot();
+
+    expect(intervals.map(({ delay, ticks }) => ({ delay, ticks }))).toEqual([
+      { delay: 500, ticks: 4 },
+      { delay: 1000, ticks: 2 },
+    ]);
+    expect(intervals[1]).toMatchObject({
+      errors: 2,
+      subscriptions: [
+        { label: "poll", runs: 2, errors: 0 },
+        { label: undefined, runs: 2, errors: 2 },
+      ],
+    });
+  });
+
+  it("should measure how long the runs take until they settle", async () => {
+    const { clock, pool } = setup({ metrics: { histogramBuckets: [50, 10] } });
+    const { callback, finish } = deferredCallback();
+    pool.run(1000, callback, { label: "fetch" });
+
+    clock.advanceBy(1000);
+    clock.advanceBy(40);
+    finish();
+    await flush();
+
+    const [subscription] = pool.metrics!.snapshot().intervals[0]!.subscriptions;
+    expect(subscription!.duration).toEqual({
+      buckets: [
+        { le: 10, count: 0 },
+        { le: 50, count: 1 },
+      ],
+      count: 1,
+      sum: 40,
+      max: 40,
+    });
+  });
+
+  it("should measure how late the ticks fire", () => {
+    const clock = new VirtualClock();
+    let lag = 0;
+    const pool = new IntervalPool({
+      interval: {
+        set: (handler, timeout) => clock.set(handler, timeout),
+        clear: (id: number) => clock.clear(id),
+        now: () => clock.now() + lag,
+      },
+      metrics: true,
+    });
+    pool.run(1000, () => {});
+
+    clock.advanceBy(1000);
+    lag = 7;
+    clock.advanceBy(2000);
+
+    expect(pool.metrics!.snapshot().intervals[0]!.drift).toMatchObject({
+      count: 3,
+      sum: 14,
+      max: 7,
+    });
+  });
+
+  it("should report the runs slower than the threshold", async () => {
+    const onSlowCallback = vi.fn();
+    const { clock, pool } = setup({
+      metrics: { slowThreshold: 100, onSlowCallback },
+    });
+    const { callback, finish } = deferredCallback();
+    pool.run(1000, callback, { label: "report" });
+
+    clock.advanceBy(1000);
+    clock.advanceBy(150);
+    finish();
+    await flush();
+
+    expect(onSlowCallback).toHaveBeenCalledWith({
+      delay: 1000,
+      label: "report",
+      duration: 150,
+      threshold: 100,
+    });
+    expect(
+      pool.metrics!.snapshot().intervals[0]!.subscriptions[0]!.slowRuns,
+    ).toBe(1);
+  });
+
+  it("should warn about slow runs by default", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { clock, pool } = setup({ metrics: { slowThreshold: 100 } });
+    const { callback, finish } = deferredCallback();
+    pool.run(1000, callback);
+
+    clock.advanceBy(1150);
+    finish();
+    await flush();
+
+    expect(warn).toHaveBeenCalledWith(
+      "An interval callback on the 1000ms interval took 150ms (threshold 100ms)",
+    );
+    warn.mockRestore();
+  });
+
+  it("should keep the metrics of stopped intervals until reset", () => {
+    const { clock, pool } = setup();
+    const unsubscribe = pool.run(1000, () => {});
+
+    clock.advanceBy(1000);
+    unsubscribe();
+    expect(pool.metrics!.snapshot().intervals).toHaveLength(1);
+
+    pool.metrics!.reset();
+    expect(pool.metrics!.snapshot()).toEqual({ intervals: [] });
+  });
+
+  it("should count the intervals of precise subscriptions by delay", () => {
+    const { clock, pool } = setup();
+    // Every one of them ticks on its own phase
+    for (let index = 0; index < 5; index++) {
+      pool.once(1000, () => {}, { precise: true });
+      clock.advanceBy(1300);
+    }
+
+    const { intervals } = pool.metrics!.snapshot();
+
+    expect(intervals).toHaveLength(1);
+    expect(intervals[0]).toMatchObject({
+      delay: 1000,
+      ticks: 5,
+      subscriptions: [{ label: undefined, runs: 5 }],
+    });
+    expect(intervals[0]).not.toHaveProperty("phase");
+    expect(pool.metrics!.toPrometheus()).toContain(
+      'interval_pool_ticks_total{delay="1000"} 5\n',
+    );
+  });
+
+  it("should serialize to the snapshot as JSON", () => {
+    const { clock, pool } = setup();
+    pool.run(1000, () => {});
+    clock.advanceBy(1000);
+
+    expect(JSON.parse(JSON.stringify(pool.metrics))).toEqual(
+      pool.metrics!.snapshot(),
+    );
+  });
+
+  it("should export the Prometheus text format", () => {
+    const { clock, pool } = setup({
+      align: true,
+      metrics: { histogramBuckets: [10] },
+    });
+    pool.run(1000, () => {}, { label: 'say "hi"' });
+    clock.advanceBy(1000);
+
+    const text = pool.metrics!.toPrometheus("app");
+
+    expect(text).toContain("# TYPE app_ticks_total counter\n");
+    expect(text).toContain('app_ticks_total{delay="1000",phase="0"} 1\n');
+    expect(text).toContain(
+      'app_tick_drift_milliseconds_bucket{delay="1000",phase="0",le="+Inf"} 1\n',
+    );
+    expect(text).toContain(
+      'app_runs_total{delay="1000",phase="0",label="say \\"hi\\""} 1\n',
+    );
+    expect(text).toContain(
+      'app_run_duration_milliseconds_bucket{delay="1000",phase="0",label="say \\"hi\\"",le="10"} 1\n',
+    );
+    expect(text).toContain(
+      'app_run_duration_milliseconds_count{delay="1000",phase="0",label="say \\"hi\\""} 1\n',
+    );
+  });
+});
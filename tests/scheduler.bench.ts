@@ -0,0 +1,42 @@
+import { bench, describe } from "vitest";
+import { IntervalPool, SingleTimerScheduler, VirtualClock } from "../src";
+
+const DELAYS = Array.from({ length: 500 }, (_, index) => 5000 + index * 7);
+
+function subscribeAll(pool: IntervalPool) {
+  return DELAYS.map((delay) => pool.run(delay, () => {}));
+}
+
+describe("subscribe and unsubscribe 500 distinct delays", () => {
+  bench("one native timer per bucket", () => {
+    const pool = new IntervalPool();
+    subscribeAll(pool).forEach((unsubscribe) => unsubscribe());
+  });
+
+  bench("SingleTimerScheduler", () => {
+    const pool = new IntervalPool({ interval: new SingleTimerScheduler() });
+    subscribeAll(pool).forEach((unsubscribe) => unsubscribe());
+  });
+});
+
+// The virtual clock stands in for the host timer queue, so the numbers show
+// how the cost of dispatching grows with the number of timers it holds
+describe("dispatch 60s of ticks for 500 distinct delays", () => {
+  bench("one timer per bucket", () => {
+    const clock = new VirtualClock({ loopLimit: Infinity });
+    const pool = new IntervalPool({ interval: clock });
+    subscribeAll(pool);
+    clock.advanceBy(60_000);
+    pool.clear();
+  });
+
+  bench("SingleTimerScheduler", () => {
+    const clock = new VirtualClock({ loopLimit: Infinity });
+    const pool = new IntervalPool({
+      interval: new SingleTimerScheduler({ interval: clock }),
+    });
+    subscribeAll(pool);
+    clock.advanceBy(60_000);
+    pool.clear();
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from "vitest";
+import { IntervalPool, SingleTimerScheduler, VirtualClock } from "../src";
+
+function setup() {
+  const clock = new VirtualClock();
+  const scheduler = new SingleTimerScheduler({ interval: clock });
+  return { clock, scheduler };
+}
+
+describe("SingleTimerScheduler", () => {
+  it("should run every interval on its own period", () => {
+    const { clock, scheduler } = setup();
+    const calls: string[] = [];
+
+    scheduler.set(() => calls.push(`a@${clock.now()}`), 300);
+    scheduler.set(() => calls.push(`b@${clock.now()}`), 200);
+
+    clock.advanceBy(600);
+
+    expect(calls).toEqual(["b@200", "a@300", "b@400", "a@600", "b@600"]);
+  });
+
+  it("should use a single underlying timer", () => {
+    const { clock, scheduler } = setup();
+
+    for (let delay = 100; delay < 200; delay++) {
+      scheduler.set(() => {}, delay);
+    }
+
+    expect(scheduler.size).toBe(100);
+    expect(clock.pendingTimers).toHaveLength(1);
+    expect(clock.pendingTimers[0]!.nextAt).toBe(100);
+  });
+
+  it("should stop running cleared intervals", () => {
+    const { clock, scheduler } = setup();
+    const handler = vi.fn();
+
+    const id = scheduler.set(handler, 100);
+    scheduler.set(() => {}, 1000);
+
+    clock.advanceBy(250);
+    scheduler.clear(id);
+    clock.advanceBy(250);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(scheduler.size).toBe(1);
+    expect(clock.pendingTimers[0]!.nextAt).toBe(1000);
+  });
+
+  it("should release the underlying timer when no intervals are left", () => {
+    const { clock, scheduler } = setup();
+
+    const first = scheduler.set(() => {}, 100);
+    const second = scheduler.set(() => {}, 200);
+    scheduler.clear(first);
+    scheduler.clear(second);
+    scheduler.clear(second);
+
+    expect(scheduler.size).toBe(0);
+    expect(clock.pendingTimers).toEqual([]);
+  });
+
+  it("should support intervals set and cleared from handlers", () => {
+    const { clock, scheduler } = setup();
+    const calls: string[] = [];
+
+    const id = scheduler.set(() => {
+      calls.push(`a@${clock.now()}`);
+      scheduler.clear(id);
+      scheduler.set(() => calls.push(`b@${clock.now()}`), 50);
+    }, 100);
+
+    clock.advanceBy(200);
+
+    expect(calls).toEqual(["a@100", "b@150", "b@200"]);
+  });
+
+  it("should skip missed ticks and keep the phase", () => {
+    const clock = new VirtualClock();
+    let time = 0;
+    const scheduler = new SingleTimerScheduler({
+      interval: {
+        set: clock.set.bind(clock),
+        clear: clock.clear.bind(clock),
+        now: () => time,
+      },
+    });
+    const times: number[] = [];
+
+    scheduler.set(() => times.push(time), 100);
+
+    // The underlying timer fires late, as after a blocked event loop
+    time = 350;
+    clock.advanceBy(100);
+    time = 400;
+    clock.advanceBy(50);
+
+    expect(times).toEqual([350, 400]);
+  });
+
+  it("should keep scheduling after a handler throws", () => {
+    const { clock, scheduler } = setup();
+    const handler = vi.fn();
+
+    scheduler.set(() => {
+      throw new Error("Test error");
+    }, 100);
+    scheduler.set(handler, 100);
+
+    // Like a native timer, the error escapes; the remaining due intervals
+    // run right after
+    expect(() => clock.advanceBy(100)).toThrow("Test error");
+    clock.advanceBy(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    expect(() => clock.advanceBy(99)).toThrow("Test error");
+    clock.advanceBy(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("should drive an IntervalPool", async () => {
+    const { clock, scheduler } = setup();
+    const pool = new IntervalPool({ interval: scheduler });
+    const fast = vi.fn();
+    const slow = vi.fn();
+    const once = vi.fn();
+
+    pool.run(1000, fast);
+    pool.run(1500, slow);
+    pool.once(700, once);
+    const iterator = pool.iterate(2000);
+    const tick = iterator.next();
+
+    expect(pool.getActiveIntervalCount()).toBe(4);
+    expect(clock.pendingTimers).toHaveLength(1);
+
+    clock.advanceBy(3000);
+
+    expect(fast).toHaveBeenCalledTimes(3);
+    expect(slow).toHaveBeenCalledTimes(2);
+    expect(once).toHaveBeenCalledTimes(1);
+    await expect(tick).resolves.toEqual({ value: undefined, done: false });
+    expect(pool.getStats()).toHaveLength(3);
+
+    await iterator.return();
+    pool.clear();
+    expect(clock.pendingTimers).toEqual([]);
+  });
+});
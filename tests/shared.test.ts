@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it, vi, type Mock } from "vitest";
+import { IntervalPool, SharedInterval, VirtualClock } from "../src";
+
+/** Lets the channel deliver the pending messages. */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+let channelCount = 0;
+
+interface Tab {
+  clock: VirtualClock;
+  channel: BroadcastChannel;
+  shared: SharedInterval;
+  pool: IntervalPool;
+  onLeaderChange: Mock;
+}
+
+/** Simulates browser tabs, each with its own clock, started at the same time. */
+function createGroup() {
+  const name = `shared-test-${channelCount++}`;
+  const tabs: Tab[] = [];
+
+  function openTab(): Tab {
+    const clock = new VirtualClock({ start: tabs[0]?.clock.now() });
+    const channel = new BroadcastChannel(name);
+    const onLeaderChange = vi.fn();
+    const shared = new SharedInterval({
+      channel,
+      interval: clock,
+      onLeaderChange,
+    });
+    const pool = new IntervalPool({ interval: shared });
+    const tab: Tab = { clock, channel, shared, pool, onLeaderChange };
+    tabs.push(tab);
+    return tab;
+  }
+
+  /** Moves every open tab forward, 100ms at a time. */
+  async function advance(ms: number, only = tabs) {
+    for (let elapsed = 0; elapsed < ms; elapsed += 100) {
+      only
+        .filter(({ shared }) => !shared.closed)
+        .forEach(({ clock }) => clock.advanceBy(100));
+      await settle();
+    }
+  }
+
+  const close = () =>
+    tabs.forEach(({ shared, channel }) => {
+      shared.close();
+      channel.close();
+    });
+
+  return { openTab, advance, tabs, close };
+}
+
+let group: ReturnType<typeof createGroup>;
+
+afterEach(() => group.close());
+
+/** Opens a leader tab, then a follower tab that learned about it. */
+async function leaderAndFollower() {
+  group = createGroup();
+  const leader = group.openTab();
+  await group.advance(1000);
+  const follower = group.openTab();
+  await settle();
+  return { leader, follower };
+}
+
+describe("SharedInterval", () => {
+  it("should elect the first instance as leader", async () => {
+    const { leader, follower } = await leaderAndFollower();
+
+    expect(leader.shared.leader).toBe(true);
+    expect(leader.onLeaderChange).toHaveBeenCalledWith(true);
+    await group.advance(5000);
+    expect(follower.shared.leader).toBe(false);
+    expect(follower.onLeaderChange).not.toHaveBeenCalled();
+  });
+
+  it("should settle on a single leader when several claim at once", async () => {
+    group = createGroup();
+    group.openTab();
+    group.openTab();
+    group.openTab();
+
+    await group.advance(1000);
+    await settle();
+
+    expect(group.tabs.filter(({ shared }) => shared.leader)).toHaveLength(1);
+  });
+
+  it("should run the timers in the leader only and broadcast the ticks", async () => {
+    const { leader, follower } = await leaderAndFollower();
+    const onLeader = vi.fn();
+    const onFollower = vi.fn();
+    follower.pool.run(1000, onFollower);
+    await settle();
+
+    await group.advance(3000);
+    leader.pool.run(1000, onLeader);
+    await group.advance(2000);
+
+    expect(onFollower).toHaveBeenCalledTimes(5);
+    expect(onLeader).toHaveBeenCalledTimes(2);
+    expect(follower.clock.pendingTimers.map(({ delay }) => delay)).toEqual([
+      3000,
+    ]);
+    expect(leader.clock.pendingTimers.map(({ delay }) => delay)).toEqual([
+      1000, 1000,
+    ]);
+  });
+
+  it("should stop the real timers once no instance needs them", async () => {
+    const { leader, follower } = await leaderAndFollower();
+    const unsubscribe = follower.pool.run(2000, () => {});
+    await settle();
+    expect(leader.clock.pendingTimers.map(({ delay }) => delay)).toContain(
+      2000,
+    );
+
+    unsubscribe();
+    await settle();
+
+    expect(leader.clock.pendingTimers.map(({ delay }) => delay)).toEqual([
+      1000,
+    ]);
+  });
+
+  it("should fail over when the leader closes, keeping the phase", async () => {
+    const { leader, follower } = await leaderAndFollower();
+    const times: number[] = [];
+    follower.pool.run(1000, () => times.push(follower.clock.now()));
+    await settle();
+    await group.advance(1500);
+
+    leader.shared.close();
+    await settle();
+    expect(follower.shared.leader).toBe(true);
+    await group.advance(2000);
+
+    expect(times).toEqual([2000, 3000, 4000]);
+  });
+
+  it("should fail over when the leader goes away silently", async () => {
+    const { leader, follower } = await leaderAndFollower();
+    const callback = vi.fn();
+    follower.pool.run(1000, callback);
+    await settle();
+
+    // The leader tab crashed, without closing its shared interval
+    leader.channel.close();
+    await group.advance(5000, [follower]);
+
+    expect(follower.shared.leader).toBe(true);
+    expect(follower.onLeaderChange).toHaveBeenCalledWith(true);
+    expect(callback).toHaveBeenCalled();
+  });
+
+  it("should keep the one-shot timers local", async () => {
+    const { leader, follower } = await leaderAndFollower();
+    const callback = vi.fn();
+
+    follower.shared.once(callback, 250);
+    follower.clock.advanceBy(250);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(leader.clock.pendingTimers.map(({ delay }) => delay)).toEqual([
+      1000,
+    ]);
+  });
+
+  it("should ignore the foreign messages on the channel", async () => {
+    const { leader } = await leaderAndFollower();
+    const foreign = new BroadcastChannel(`shared-test-${channelCount - 1}`);
+
+    foreign.postMessage({ type: "claim", from: 42 });
+    foreign.postMessage("hello");
+    await settle();
+    foreign.close();
+
+    expect(leader.shared.leader).toBe(true);
+  });
+
+  it("should not set timers once closed", async () => {
+    const { follower } = await leaderAndFollower();
+
+    follower.shared.close();
+
+    expect(() => follower.shared.set(() => {}, 1000)).toThrow(
+      "Cannot set a timer on a closed SharedInterval",
+    );
+  });
+});
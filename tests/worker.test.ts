@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { IntervalPool, WorkerInterval, type WorkerFactory } from "../src";
+
+/** A worker living on the main thread, driven by the test. */
+function fakeWorker() {
+  const commands: unknown[] = [];
+  let send: (data: unknown) => void = () => {};
+  const terminate = vi.fn();
+  const createWorker = vi.fn<WorkerFactory>((_source, onMessage) => {
+    send = onMessage;
+    return { postMessage: (command) => commands.push(command), terminate };
+  });
+  const tick = (id: number, age = 0) => send({ id, time: Date.now() - age });
+  return { createWorker, commands, terminate, tick };
+}
+
+/** Worker threads can take a while to start on a busy machine. */
+const waitForWorker = { timeout: 5000 };
+
+function block(ms: number) {
+  const end = Date.now() + ms;
+  while (Date.now() < end) {
+    // Busy main thread
+  }
+}
+
+describe("WorkerInterval", () => {
+  let pool: IntervalPool | undefined;
+
+  afterEach(() => {
+    pool?.dispose();
+    vi.useRealTimers();
+  });
+
+  it("should run the timers in a worker thread", async () => {
+    const timers = new WorkerInterval();
+    pool = new IntervalPool({ interval: timers });
+    const callback = vi.fn();
+
+    const unsubscribe = pool.run(20, callback);
+    await vi.waitFor(
+      () => expect(callback.mock.calls.length).toBeGreaterThanOrEqual(3),
+      waitForWorker,
+    );
+    unsubscribe();
+
+    await vi.waitFor(() => expect(timers.running).toBe(false), waitForWorker);
+    expect(timers.latency.ticks).toBeGreaterThanOrEqual(3);
+  });
+
+  it("should skip the ticks missed while the main thread was blocked", async () => {
+    const timers = new WorkerInterval();
+    pool = new IntervalPool({ interval: timers });
+    const callback = vi.fn();
+    pool.run(20, callback);
+    await vi.waitFor(() => expect(callback).toHaveBeenCalled(), waitForWorker);
+    callback.mockClear();
+
+    block(200);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(callback.mock.calls.length).toBeLessThanOrEqual(2);
+    expect(timers.latency.skipped).toBeGreaterThan(0);
+    expect(timers.latency.max).toBeGreaterThanOrEqual(100);
+  });
+
+  it("should start the worker with the first timer only", () => {
+    const { createWorker, commands } = fakeWorker();
+    const timers = new WorkerInterval({ createWorker });
+    expect(createWorker).not.toHaveBeenCalled();
+
+    const id = timers.set(() => {}, 0);
+
+    expect(timers.running).toBe(true);
+    expect(commands).toEqual([{ type: "set", id, timeout: 1 }]);
+  });
+
+  it("should terminate the worker once the last timer is cleared", async () => {
+    const { createWorker, terminate } = fakeWorker();
+    const timers = new WorkerInterval({ createWorker });
+    const first = timers.set(() => {}, 1000);
+    const second = timers.set(() => {}, 2000);
+
+    timers.clear(first);
+    await Promise.resolve();
+    expect(terminate).not.toHaveBeenCalled();
+
+    timers.clear(second);
+    await Promise.resolve();
+    expect(terminate).toHaveBeenCalledTimes(1);
+    expect(timers.running).toBe(false);
+  });
+
+  it("should keep the worker for a timer set right after the last clear", async () => {
+    const { createWorker, terminate } = fakeWorker();
+    const timers = new WorkerInterval({ createWorker });
+
+    timers.clear(timers.set(() => {}, 1000));
+    timers.set(() => {}, 500);
+    await Promise.resolve();
+
+    expect(terminate).not.toHaveBeenCalled();
+    expect(createWorker).toHaveBeenCalledTimes(1);
+  });
+
+  it("should measure how long the ticks waited", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { createWorker, tick } = fakeWorker();
+    const timers = new WorkerInterval({ createWorker });
+    const handler = vi.fn();
+    const id = timers.set(handler, 1000);
+
+    tick(id, 10);
+    vi.setSystemTime(Date.now() + 1000);
+    tick(id, 30);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(timers.latency).toMatchObject({ ticks: 2, skipped: 0 });
+    expect(timers.latency.max).toBeGreaterThanOrEqual(30);
+    expect(timers.latency.mean).toBeGreaterThanOrEqual(20);
+  });
+
+  it("should run the ticks later than a short period", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { createWorker, tick } = fakeWorker();
+    const timers = new WorkerInterval({ createWorker });
+    const handler = vi.fn();
+    const id = timers.set(handler, 1);
+
+    for (let index = 0; index < 3; index++) {
+      vi.setSystemTime(Date.now() + 1);
+      tick(id, 5);
+      vi.setSystemTime(Date.now() + 5);
+    }
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(timers.latency).toMatchObject({ ticks: 3, skipped: 0, max: 5 });
+  });
+
+  it("should skip the ticks sent before the previous one ran", () => {
+    const { createWorker, tick } = fakeWorker();
+    const timers = new WorkerInterval({ createWorker });
+    const handler = vi.fn();
+    const id = timers.set(handler, 1000);
+
+    tick(id, 2000);
+    tick(id, 1000);
+    tick(id, 5);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(timers.latency).toMatchObject({ ticks: 3, skipped: 2 });
+  });
+
+  it("should ignore the ticks of cleared timers", () => {
+    const { createWorker, tick } = fakeWorker();
+    const timers = new WorkerInterval({ createWorker });
+    const handler = vi.fn();
+    const id = timers.set(handler, 1000);
+
+    timers.clear(id);
+    tick(id);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(timers.latency.ticks).toBe(0);
+  });
+});